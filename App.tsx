@@ -1,75 +1,277 @@
 
-import React, { useState, useEffect } from 'react';
-import { AppState, TutoringConfig, TutoringComplexity, TutoringPacing, SessionMode } from './types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { AppState, SessionMode, ConditionSchedule, ParticipantInfo, StudyProtocol, TutoringConfig, ProtocolAdaptationSpec, ProtocolCaptionSpec, ContentPack } from './types';
 import TutoringSession from './components/TutoringSession';
+import ParticipantRegistration from './components/ParticipantRegistration';
+import CalibrationTask from './components/CalibrationTask';
+import QuestionnaireSequence from './components/QuestionnaireSequence';
+import BreakScreen from './components/BreakScreen';
+import RetentionTest from './components/RetentionTest';
+import MarkerStatus from './components/MarkerStatus';
+import WorkloadStatus from './components/WorkloadStatus';
+import OfflineExport from './components/OfflineExport';
+import CacheInspector from './components/CacheInspector';
 import { generateAppBackground } from './services/geminiService';
-import { logger } from './utils/eventLogger';
-
-// Define the 4 combinations for the experiment
-// 1: Simple + Normal
-// 2: Simple + Fast
-// 3: Complex + Normal
-// 4: Complex + Fast
-// These are mapped to ID 1-4. We can shuffle them if needed, but fixed mapping 
-// with opaque IDs (1, 2, 3, 4) satisfies the requirement of appearing random to the user.
-// We'll use a non-linear mapping to make it less obvious if they try sequential IDs.
-const COMBINATIONS = [
-  { id: 1, complexity: TutoringComplexity.SIMPLE, pacing: TutoringPacing.NORMAL },
-  { id: 2, complexity: TutoringComplexity.COMPLEX, pacing: TutoringPacing.FAST },
-  { id: 3, complexity: TutoringComplexity.SIMPLE, pacing: TutoringPacing.FAST },
-  { id: 4, complexity: TutoringComplexity.COMPLEX, pacing: TutoringPacing.NORMAL },
-].sort((a, b) => a.id - b.id); // Ensure sorted by ID for display
+import { configureProvider, getProviderOverride, getProviderStamp } from './services/generationProvider';
+import { logger, SessionLog, RetentionResult } from './utils/eventLogger';
+import { getSessionsForParticipant } from './utils/studyStorage';
+import { markerStream } from './utils/markerStream';
+import { workloadSignal, getWorkloadSignalOverride } from './utils/workloadSignal';
+import { behaviourTelemetry } from './utils/behaviourTelemetry';
+import { configForPosition, configForCombination } from './utils/conditionScheduler';
+import { overallWorkload } from './utils/nasaTlx';
+import { NASA_TLX_ID } from './utils/questionnaires';
+import { loadProtocol, getProtocolUrl, resolveCalibrationConfig, scheduleForLessons, checkProtocolTopics, ProtocolError, ResumePoint, findResumePoint, isRetentionVisit } from './utils/protocol';
+import { loadContentPacks, getTopic, DEFAULT_CONTENT_PACKS, ContentPackError } from './utils/contentPacks';
+import { configureOfflineMode, checkOfflineContent, isOfflineMode } from './utils/offlineMode';
+import { configureAnswerPolicy } from './utils/answerPolicy';
+import { resolveAdaptationPolicy } from './utils/adaptationPolicy';
+import { resolveCaptionMode } from './utils/captions';
+
+// Researcher tools replace the participant flow: ?tool=offline-export or ?tool=cache
+const getResearcherTool = (): string | null => new URLSearchParams(window.location.search).get('tool');
+
+const PHASE_DESCRIPTIONS: Record<string, { label: string; color: string; text: string }> = {
+  calibration: { label: 'Calibration', color: 'text-rose-400', text: 'Alternating rest and mental arithmetic trials.' },
+  practice: { label: 'Practice', color: 'text-amber-400', text: 'A short lesson to get familiar with the tutor.' },
+  lessons: { label: 'Learning Phase', color: 'text-blue-400', text: 'Lessons on curated topics, each followed by a short quiz.' },
+  questionnaire: { label: 'Evaluation', color: 'text-emerald-400', text: 'Questionnaires about your experience.' },
+  break: { label: 'Break', color: 'text-slate-300', text: 'A short rest.' }
+};
+
+// Stamps the lessons phase's adaptation policy, resolved for this condition, onto the config
+const withAdaptation = (config: TutoringConfig, spec?: ProtocolAdaptationSpec): TutoringConfig =>
+  spec ? { ...config, adaptation: resolveAdaptationPolicy(spec, config.combinationId, config.complexity) } : config;
+
+// Likewise for the caption mode
+const withCaptions = (config: TutoringConfig, spec?: ProtocolCaptionSpec): TutoringConfig =>
+  spec ? { ...config, captions: resolveCaptionMode(spec, config.combinationId) } : config;
 
 const App: React.FC = () => {
-  const [appState, setAppState] = useState<AppState>(AppState.WELCOME);
+  const [appState, setAppState] = useState<AppState>(AppState.PROTOCOL_LOADING);
   const [sessionMode, setSessionMode] = useState<SessionMode>('default');
   
-  // Default to Combination 1
-  const [tutoringConfig, setTutoringConfig] = useState<TutoringConfig>({
-    topic: 'Photosynthesis',
-    complexity: COMBINATIONS[0].complexity,
-    pacing: COMBINATIONS[0].pacing,
-    combinationId: COMBINATIONS[0].id
-  });
+  // Study protocol driving the phase sequence
+  const [protocol, setProtocol] = useState<StudyProtocol | null>(null);
+  const [protocolProblems, setProtocolProblems] = useState<string[]>([]);
+  const [phaseIndex, setPhaseIndex] = useState(0);
+  
+  // Registered participant, kept for the whole visit
+  const [participant, setParticipant] = useState<ParticipantInfo | null>(null);
+  
+  // Condition order for the current 'lessons' phase
+  const [schedule, setSchedule] = useState<ConditionSchedule | null>(null);
+  const [schedulePosition, setSchedulePosition] = useState(0);
   
+  // Earlier tutoring sessions of a returning participant (for the retention test)
+  const [priorSessions, setPriorSessions] = useState<SessionLog[]>([]);
+
+  // Installed content packs, for the offline export tool
+  const [contentPacks, setContentPacks] = useState<ContentPack[]>([]);
+
   const [results, setResults] = useState<any[]>([]);
   const [bgImage, setBgImage] = useState<string | null>(null);
 
+  const loadBackground = async () => {
+      try {
+          const image = await generateAppBackground();
+          setBgImage(image);
+      } catch (e) {
+          console.error("Failed to load background", e);
+      }
+  };
+
+  // Load Protocol
   useEffect(() => {
-    const loadBackground = async () => {
+    const init = async () => {
         try {
-            const image = await generateAppBackground();
-            setBgImage(image);
-        } catch (e) {
-            console.error("Failed to load background", e);
+            const loaded = await loadProtocol(getProtocolUrl());
+            const packs = await loadContentPacks(loaded.contentPacks ?? DEFAULT_CONTENT_PACKS);
+            checkProtocolTopics(loaded);
+            configureProvider(getProviderOverride() ?? loaded.provider);
+            logger.setProviderStamp(getProviderStamp());
+            if (getResearcherTool() === 'offline-export') {
+                setContentPacks(packs);
+                setAppState(AppState.OFFLINE_EXPORT);
+                return;
+            }
+            if (getResearcherTool() === 'cache') {
+                setAppState(AppState.CACHE_INSPECTOR);
+                return;
+            }
+            configureOfflineMode(loaded.offline);
+            configureAnswerPolicy(loaded.answerPolicy);
+            if (isOfflineMode()) checkOfflineContent(loaded);
+            else loadBackground();
+            setProtocol(loaded);
+            markerStream.configure(loaded.markerStream);
+            workloadSignal.configure(getWorkloadSignalOverride() ?? loaded.workloadSignal);
+            behaviourTelemetry.configure(loaded.behaviourTelemetry);
+            enterPhase(loaded, 0);
+        } catch (e: any) {
+            console.error("Failed to load protocol", e);
+            setProtocolProblems(e instanceof ProtocolError || e instanceof ContentPackError ? e.problems : [e.message]);
+            setAppState(AppState.PROTOCOL_ERROR);
         }
     };
-    loadBackground();
+    init();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  const startTutoringSetup = () => {
-      setAppState(AppState.TUTORING_SETUP);
+  const phase = protocol?.phases[phaseIndex];
+
+  // Standalone questionnaire phases get their own log
+  useEffect(() => {
+    if (appState === AppState.QUESTIONNAIRE && participant) {
+        logger.startSession(participant, 'questionnaire');
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [appState, phaseIndex]);
+
+  // Resolved once per phase so the calibration trial list is not rebuilt on re-render
+  const calibrationConfig = useMemo(
+    () => phase?.type === 'calibration' ? resolveCalibrationConfig(phase.config) : null,
+    [phase]
+  );
+
+  // Stable per lesson: the session's adaptation and yoked-replay effects depend on it
+  const tutoringConfig = useMemo((): TutoringConfig | null =>
+    phase?.type === 'practice' ? withCaptions(configForCombination(phase.combinationId, phase.topic, true), phase.captions && { mode: phase.captions })
+    : schedule ? withCaptions(
+        withAdaptation(configForPosition(schedule, schedulePosition), phase?.type === 'lessons' ? phase.adaptation : undefined),
+        phase?.type === 'lessons' ? phase.captions : undefined)
+    : null,
+    [phase, schedule, schedulePosition]
+  );
+  const showGain = results.some(r => r.preTestScore !== undefined);
+  const hasNextCondition = schedule !== null && schedulePosition < schedule.conditions.length - 1;
+
+  const enterPhase = (proto: StudyProtocol, index: number, resume?: ResumePoint) => {
+      setPhaseIndex(index);
       setSessionMode('default');
+
+      const next = proto.phases[index];
+      if (!next) {
+          // Ran off the end without an explicit debrief
+          setAppState(AppState.DEBRIEF);
+          return;
+      }
+      logger.setProtocolStamp({
+          protocolId: proto.id,
+          protocolVersion: proto.version,
+          phaseIndex: index,
+          phaseType: next.type
+      });
+
+      switch (next.type) {
+          case 'consent': setAppState(AppState.REGISTRATION); break;
+          case 'welcome': setAppState(AppState.WELCOME); break;
+          case 'calibration': setAppState(AppState.CALIBRATION_INTRO); break;
+          case 'practice':
+              setSchedule(null);
+              setAppState(AppState.TUTORING_SETUP);
+              break;
+          case 'lessons':
+              setSchedule(resume?.schedule ?? scheduleForLessons(next));
+              setSchedulePosition(resume?.position ?? 0);
+              setAppState(AppState.TUTORING_SETUP);
+              break;
+          case 'questionnaire': setAppState(AppState.QUESTIONNAIRE); break;
+          case 'break': setAppState(AppState.BREAK); break;
+          case 'debrief': setAppState(AppState.DEBRIEF); break;
+      }
   };
-  const startTutoringSession = () => setAppState(AppState.TUTORING_SESSION);
-  const goBackToWelcome = () => {
-      setAppState(AppState.WELCOME);
-      setSessionMode('default');
+  const advancePhase = () => enterPhase(protocol!, phaseIndex + 1);
+
+  const handleRegister = async (info: ParticipantInfo) => {
+      setParticipant(info);
+      let sessions: SessionLog[] = [];
+      try {
+          sessions = await getSessionsForParticipant(info.participantId);
+      } catch (e) {
+          console.error('Could not read stored sessions', e);
+      }
+      // Completed lessons only, the latest of each condition, so a lesson that was
+      // restarted after a reload is not asked about twice
+      const byCondition = new Map<string, SessionLog>();
+      sessions
+          .filter(s => s.sessionType === 'tutoring' && s.quizStats && s.quizQuestions && s.quizQuestions.length > 0)
+          .sort((a, b) => a.startTime - b.startTime)
+          .forEach(s => byCondition.set(`${s.config?.combinationId}|${s.config?.topic}`, s));
+      const previous = [...byCondition.values()];
+      setPriorSessions(previous);
+
+      if (!isRetentionVisit(protocol!, sessions)) {
+          // Registered again mid-study (e.g. after a reload): back to where they left off
+          const resume = sessions.length > 0 ? findResumePoint(protocol!, sessions) : null;
+          if (resume) {
+              console.info(resume.complete
+                  ? `Participant ${info.participantId} has already finished the study`
+                  : `Resuming participant ${info.participantId} at phase ${resume.phaseIndex}`);
+              enterPhase(protocol!, resume.phaseIndex, resume);
+          } else {
+              advancePhase();
+          }
+      } else if (previous.length > 0) {
+          setAppState(AppState.RETENTION_OFFER);
+      } else {
+          advancePhase();
+      }
+  };
+  const startRetentionTest = () => {
+      logger.startSession(participant!, 'retention');
+      setAppState(AppState.RETENTION_TEST);
   };
+  const handleRetentionComplete = (retention: RetentionResult[]) => {
+      logger.setRetentionResults(retention);
+      logger.exportJSON();
+      setAppState(AppState.DEBRIEF);
+  };
+  const handleDeclineConsent = () => {
+      setParticipant(null);
+      setAppState(AppState.CONSENT_DECLINED);
+  };
+
+  const startCalibration = () => {
+      logger.startSession(participant!, 'calibration');
+      setAppState(AppState.CALIBRATION_RUNNING);
+  };
+  const handleCalibrationComplete = () => {
+      setAppState(AppState.CALIBRATION_COMPLETE);
+      logger.exportJSON();
+  };
+
+  const startTutoringSession = () => setAppState(AppState.TUTORING_SESSION);
   
   const handleSessionComplete = (data: any) => {
-    setResults([...results, data]);
-    setAppState(AppState.FINISHED);
     setSessionMode('default');
     // Automatically trigger JSON download when session completes
     logger.exportJSON();
+    if (data.config.isPractice) {
+        advancePhase();
+        return;
+    }
+    setResults([...results, data]);
+    setAppState(AppState.FINISHED);
+  };
+  const handleQuestionnairePhaseComplete = () => {
+    logger.exportJSON();
+    advancePhase();
   };
   const restart = () => {
     setResults([]);
-    setAppState(AppState.WELCOME);
-    setSessionMode('default');
+    setSchedule(null);
+    setSchedulePosition(0);
+    setParticipant(null);
+    setPriorSessions([]);
+    enterPhase(protocol!, 0);
   };
   const nextSession = () => {
+    if (!hasNextCondition) {
+        advancePhase();
+        return;
+    }
+    setSchedulePosition(prev => prev + 1);
     setAppState(AppState.TUTORING_SETUP);
     setSessionMode('default');
   };
@@ -78,18 +280,6 @@ const App: React.FC = () => {
     setSessionMode(mode);
   };
 
-  const setCombination = (id: number) => {
-    const combo = COMBINATIONS.find(c => c.id === id);
-    if (combo) {
-        setTutoringConfig(prev => ({
-            ...prev,
-            combinationId: id,
-            complexity: combo.complexity,
-            pacing: combo.pacing
-        }));
-    }
-  };
-
   const getBackgroundClass = () => {
     switch(sessionMode) {
         case 'explanation': return 'bg-black text-white';
@@ -101,83 +291,145 @@ const App: React.FC = () => {
 
   const renderContent = () => {
     switch (appState) {
+      case AppState.PROTOCOL_LOADING:
+        return <p className="text-sm text-blue-300 font-mono animate-pulse">Loading study protocol...</p>;
+
+      case AppState.PROTOCOL_ERROR:
+        return (
+          <div className="max-w-2xl w-full bg-slate-800/90 p-8 rounded-2xl border border-rose-500/50 space-y-4">
+            <h2 className="text-2xl font-bold text-white">Study Protocol Error</h2>
+            <p className="text-slate-400 font-mono text-sm">{getProtocolUrl()}</p>
+            <ul className="list-disc list-inside text-rose-300 space-y-1 text-sm font-mono">
+              {protocolProblems.map((problem, i) => <li key={i}>{problem}</li>)}
+            </ul>
+          </div>
+        );
+
+      case AppState.OFFLINE_EXPORT:
+        return <OfflineExport packs={contentPacks} />;
+
+      case AppState.CACHE_INSPECTOR:
+        return <CacheInspector />;
+
+      case AppState.REGISTRATION:
+        return <ParticipantRegistration onRegister={handleRegister} onDecline={handleDeclineConsent} />;
+
+      case AppState.CONSENT_DECLINED:
+        return (
+          <div className="max-w-xl text-center space-y-6 animate-fade-in">
+            <h2 className="text-3xl font-bold text-white">Consent Not Given</h2>
+            <p className="text-slate-400">
+              Thank you for your time. Participation requires informed consent, so the study cannot continue.
+              No data has been recorded.
+            </p>
+            <button onClick={() => setAppState(AppState.REGISTRATION)} className="px-6 py-3 border border-slate-600 text-slate-400 hover:text-white rounded-lg transition-all">
+              Return to Registration
+            </button>
+          </div>
+        );
+
       case AppState.WELCOME:
         return (
           <div className="max-w-2xl text-center space-y-8 animate-fade-in">
             <div className="mb-8">
                 <h1 className="text-5xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-emerald-400 mb-4">
-                Neuroadaptive AI Tutor
+                {(phase?.type === 'welcome' && phase.title) || 'Neuroadaptive AI Tutor'}
                 </h1>
                 <p className="text-xl text-slate-400">
-                A research interface for AI tutoring.
+                {(phase?.type === 'welcome' && phase.description) || 'A research interface for AI tutoring.'}
                 </p>
+                {participant && <p className="mt-2 text-sm font-mono text-slate-500">Participant {participant.participantId}</p>}
             </div>
 
             <div className="bg-slate-800/50 p-6 rounded-xl border border-slate-700 text-left space-y-4 shadow-lg backdrop-blur-sm">
                 <h3 className="text-lg font-bold text-white">Session Protocol</h3>
                 <ul className="list-disc list-inside text-slate-300 space-y-2">
-                    <li><span className="text-blue-400 font-bold">Learning Phase</span> - Choose one of three curated topics for your lesson.</li>
-                    <li><span className="text-emerald-400 font-bold">Evaluation</span> - Assessment and subjective workload rating.</li>
+                    {protocol!.phases.filter(p => PHASE_DESCRIPTIONS[p.type]).map((p, i) => {
+                        const desc = PHASE_DESCRIPTIONS[p.type];
+                        return <li key={i}><span className={`${desc.color} font-bold`}>{desc.label}</span> - {desc.text}</li>;
+                    })}
                 </ul>
             </div>
 
             <div className="flex flex-col gap-3">
-                <button onClick={startTutoringSetup} className="px-8 py-4 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg font-bold text-lg shadow-lg shadow-emerald-900/50 transition-all transform hover:scale-105">
-                Start Learning Session
+                <button onClick={advancePhase} className="px-8 py-4 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg font-bold text-lg shadow-lg shadow-emerald-900/50 transition-all transform hover:scale-105">
+                Start Study
                 </button>
             </div>
           </div>
         );
 
+      case AppState.CALIBRATION_INTRO:
+        return (
+          <div className="max-w-2xl text-center space-y-8 animate-fade-in">
+            <h2 className="text-3xl font-bold text-white">Calibration</h2>
+            <div className="bg-slate-800/50 p-6 rounded-xl border border-slate-700 text-left space-y-4 shadow-lg backdrop-blur-sm">
+                <p className="text-slate-300">
+                    You will see {calibrationConfig!.sequence?.length ?? calibrationConfig!.trialCount} short trials, separated by a fixation cross.
+                </p>
+                <ul className="list-disc list-inside text-slate-300 space-y-2">
+                    <li><span className="text-emerald-400 font-bold">Rest State</span> - Keep your eyes open and relax.</li>
+                    <li><span className="text-rose-400 font-bold">Mental Arithmetic</span> - Start from the number shown and keep subtracting the step until the trial ends.</li>
+                </ul>
+                <p className="text-slate-400 text-sm">Please stay as still as possible throughout.</p>
+            </div>
+            <button onClick={startCalibration} className="px-8 py-4 bg-rose-600 hover:bg-rose-500 text-white rounded-lg font-bold text-lg shadow-lg shadow-rose-900/50 transition-all transform hover:scale-105">
+                Begin Calibration
+            </button>
+          </div>
+        );
+
+      case AppState.CALIBRATION_RUNNING:
+        return <CalibrationTask config={calibrationConfig!} onComplete={handleCalibrationComplete} />;
+
+      case AppState.CALIBRATION_COMPLETE:
+        return (
+          <div className="max-w-2xl text-center space-y-8 animate-fade-in">
+            <div>
+                <h2 className="text-3xl font-bold text-white mb-2">Calibration Complete</h2>
+                <p className="text-slate-400">Data recorded for analysis</p>
+            </div>
+            <button onClick={advancePhase} className="px-8 py-4 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg font-bold text-lg shadow-lg shadow-emerald-900/50 transition-all transform hover:scale-105">
+                Continue
+            </button>
+          </div>
+        );
+
       case AppState.TUTORING_SETUP:
         return (
             <div className="max-w-2xl w-full bg-slate-800/90 backdrop-blur-md p-8 rounded-2xl shadow-xl border border-slate-700 relative">
-                <button 
-                  onClick={goBackToWelcome}
-                  className="absolute top-4 left-4 text-slate-400 hover:text-white transition-colors"
-                  aria-label="Back"
-                >
-                   <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10 19l-7-7m0 0l7-7m-7 7h18"></path></svg>
-                </button>
-
-                <h2 className="text-2xl font-bold text-white mb-8 text-center">Setup Your Session</h2>
+                <h2 className="text-2xl font-bold text-white mb-2 text-center">Setup Your Session</h2>
+                <p className="text-slate-400 text-center mb-8">
+                    {schedule ? `Condition ${schedulePosition + 1} of ${schedule.conditions.length}` : 'Practice Lesson'}
+                </p>
                 
                 <div className="space-y-8">
                     <div>
-                        <label className="block text-sm font-medium text-slate-400 mb-4 text-center uppercase tracking-widest">Select Learning Topic</label>
-                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                            {[
-                                { id: 'Photosynthesis', label: 'Photosynthesis', icon: '🌱' },
-                                { id: 'Business Studies', label: 'Business Studies', icon: '📈' },
-                                { id: 'Climate Change', label: 'Climate Change', icon: '🌍' }
-                            ].map((t) => (
-                                <button
-                                    key={t.id}
-                                    onClick={() => setTutoringConfig({...tutoringConfig, topic: t.id})}
-                                    className={`p-6 rounded-xl border transition-all flex flex-col items-center gap-3 text-center ${tutoringConfig.topic === t.id ? 'bg-blue-600/20 border-blue-500 scale-105 shadow-lg shadow-blue-900/20' : 'bg-slate-700/50 border-slate-600 text-slate-400 hover:bg-slate-700'}`}
-                                >
-                                    <span className="text-3xl">{t.icon}</span>
-                                    <span className={`font-bold ${tutoringConfig.topic === t.id ? 'text-white' : ''}`}>{t.label}</span>
-                                </button>
-                            ))}
+                        <label className="block text-sm font-medium text-slate-400 mb-4 text-center uppercase tracking-widest">Learning Topic</label>
+                        <div className="flex justify-center">
+                            <div className="p-6 rounded-xl border flex flex-col items-center gap-3 text-center bg-blue-600/20 border-blue-500 shadow-lg shadow-blue-900/20 min-w-[12rem]">
+                                <span className="text-3xl">{getTopic(tutoringConfig!.topic)?.icon || '📘'}</span>
+                                <span className="font-bold text-white">{tutoringConfig!.topic}</span>
+                            </div>
                         </div>
                     </div>
 
+                    {schedule && (
                     <div>
-                         <label className="block text-sm font-medium text-slate-400 mb-4 text-center uppercase tracking-widest">Select Combination</label>
+                         <label className="block text-sm font-medium text-slate-400 mb-4 text-center uppercase tracking-widest">Condition Order</label>
                          <div className="grid grid-cols-4 gap-4">
-                            {COMBINATIONS.map((combo) => (
-                                <button
-                                    key={combo.id}
-                                    onClick={() => setCombination(combo.id)}
-                                    className={`p-4 rounded-xl border transition-all flex flex-col items-center justify-center gap-1 text-center group ${tutoringConfig.combinationId === combo.id ? 'bg-indigo-600/30 border-indigo-500 text-indigo-300 scale-105 shadow-lg shadow-indigo-900/20' : 'bg-slate-700/50 border-slate-600 text-slate-500 hover:bg-slate-700'}`}
+                            {schedule.conditions.map((condition, position) => (
+                                <div
+                                    key={position}
+                                    className={`p-4 rounded-xl border transition-all flex flex-col items-center justify-center gap-1 text-center ${position === schedulePosition ? 'bg-indigo-600/30 border-indigo-500 text-indigo-300 scale-105 shadow-lg shadow-indigo-900/20' : position < schedulePosition ? 'bg-slate-800/50 border-slate-700 text-slate-600 line-through' : 'bg-slate-700/50 border-slate-600 text-slate-500'}`}
                                 >
-                                    <span className="text-2xl font-bold group-hover:scale-110 transition-transform">{combo.id}</span>
+                                    <span className="text-2xl font-bold">{condition.combinationId}</span>
                                     <div className="h-1 w-8 rounded-full bg-current opacity-20"></div>
-                                </button>
+                                </div>
                             ))}
                          </div>
                     </div>
+                    )}
 
                     <button 
                         onClick={startTutoringSession}
@@ -190,7 +442,7 @@ const App: React.FC = () => {
         );
 
       case AppState.TUTORING_SESSION:
-        return <TutoringSession config={tutoringConfig} onSessionComplete={handleSessionComplete} onModeChange={handleModeChange} />;
+        return <TutoringSession key={`${phaseIndex}:${schedulePosition}`} config={tutoringConfig!} participant={participant!} includeTlxWeighting={phase?.type === 'lessons' && !!phase.tlxWeighting} questionnaires={phase?.type === 'lessons' ? (phase.questionnaires ?? [NASA_TLX_ID]) : []} includePreTest={phase?.type === 'lessons' && !!phase.preTest} resumeFromSentence={phase?.type === 'lessons' && !!phase.resumeFromSentence} onSessionComplete={handleSessionComplete} onModeChange={handleModeChange} />;
 
       case AppState.FINISHED:
         return (
@@ -207,12 +459,13 @@ const App: React.FC = () => {
                                 <th className="p-4">Combo</th>
                                 <th className="p-4">Topic</th>
                                 <th className="p-4">Score</th>
-                                <th className="p-4">Workload (Avg)</th>
+                                {showGain && <th className="p-4">Gain</th>}
+                                <th className="p-4">Workload (TLX)</th>
                             </tr>
                         </thead>
                         <tbody>
                             {results.map((r, i) => {
-                                const workloadAvg = Math.round((r.rating.mentalDemand + r.rating.effort + r.rating.frustration) / 3);
+                                const workload = r.rating ? Math.round(overallWorkload(r.rating)) : null;
                                 return (
                                     <tr key={i} className="border-t border-slate-700 hover:bg-slate-700/30 transition-colors">
                                         <td className="p-4">
@@ -231,13 +484,23 @@ const App: React.FC = () => {
                                                 {r.quizScore}/3
                                             </span>
                                         </td>
+                                        {showGain && (
+                                            <td className="p-4 font-mono text-xs">
+                                                {typeof r.normalizedGain === 'number' ? r.normalizedGain.toFixed(2) : '–'}
+                                                {r.preTestScore !== undefined && <span className="text-slate-500"> (pre {r.preTestScore}/3)</span>}
+                                            </td>
+                                        )}
                                         <td className="p-4">
-                                            <div className="flex items-center gap-3">
-                                                <div className="w-24 bg-slate-900 rounded-full h-2">
-                                                    <div className={`h-2 rounded-full ${workloadAvg > 70 ? 'bg-rose-500' : 'bg-blue-500'}`} style={{width: `${workloadAvg}%`}}></div>
+                                            {workload !== null ? (
+                                                <div className="flex items-center gap-3">
+                                                    <div className="w-24 bg-slate-900 rounded-full h-2">
+                                                        <div className={`h-2 rounded-full ${workload > 70 ? 'bg-rose-500' : 'bg-blue-500'}`} style={{width: `${workload}%`}}></div>
+                                                    </div>
+                                                    <span className="text-xs">{workload}</span>
                                                 </div>
-                                                <span className="text-xs">{workloadAvg}</span>
-                                            </div>
+                                            ) : (
+                                                <span className="text-xs text-slate-500">–</span>
+                                            )}
                                         </td>
                                     </tr>
                                 )
@@ -249,10 +512,10 @@ const App: React.FC = () => {
                  <div className="flex flex-col gap-3 items-center">
                     <div className="flex gap-4">
                         <button onClick={nextSession} className="px-6 py-3 bg-slate-700 hover:bg-slate-600 text-white rounded-lg font-bold transition-all">
-                            Run Another Condition
+                            {hasNextCondition ? `Next Condition (${schedulePosition + 2}/${schedule!.conditions.length})` : 'Continue'}
                         </button>
                         <button onClick={restart} className="px-6 py-3 border border-slate-600 text-slate-400 hover:text-white rounded-lg transition-all">
-                            Reset Experiment
+                            New Participant
                         </button>
                     </div>
                     
@@ -267,6 +530,68 @@ const App: React.FC = () => {
             </div>
         );
 
+      case AppState.QUESTIONNAIRE:
+        return (
+            <QuestionnaireSequence
+                key={phaseIndex}
+                questionnaires={phase?.type === 'questionnaire' ? phase.questionnaires : []}
+                includeTlxWeighting={phase?.type === 'questionnaire' && !!phase.tlxWeighting}
+                onNasaTlx={(rating) => logger.setNasaTlx(rating)}
+                onResponse={(response) => logger.setQuestionnaireResponse(response)}
+                onComplete={handleQuestionnairePhaseComplete}
+            />
+        );
+
+      case AppState.BREAK:
+        return (
+            <BreakScreen
+                key={phaseIndex}
+                durationMs={phase?.type === 'break' ? phase.durationMs : undefined}
+                message={phase?.type === 'break' ? phase.message : undefined}
+                onContinue={advancePhase}
+            />
+        );
+
+      case AppState.RETENTION_OFFER: {
+        const lastSeen = new Date(Math.max(...priorSessions.map(s => s.startTime)));
+        return (
+          <div className="max-w-2xl text-center space-y-8 animate-fade-in">
+            <div>
+                <h2 className="text-3xl font-bold text-white mb-2">Welcome Back</h2>
+                <p className="text-slate-400">
+                    You last took part on {lastSeen.toLocaleDateString()}. Before continuing, please answer a few questions about the lessons you saw then.
+                </p>
+            </div>
+            <div className="flex justify-center gap-4">
+                <button onClick={startRetentionTest} className="px-8 py-3 bg-blue-600 hover:bg-blue-500 text-white font-bold rounded-lg transition-all">
+                    Start Recall Test ({priorSessions.reduce((n, s) => n + s.quizQuestions!.length, 0)} questions)
+                </button>
+                <button onClick={() => setAppState(AppState.DEBRIEF)} className="px-6 py-3 border border-slate-600 text-slate-400 hover:text-white rounded-lg transition-all">
+                    Skip
+                </button>
+            </div>
+          </div>
+        );
+      }
+
+      case AppState.RETENTION_TEST:
+        return <RetentionTest sessions={priorSessions} onComplete={handleRetentionComplete} />;
+
+      case AppState.DEBRIEF:
+        return (
+          <div className="max-w-2xl text-center space-y-8 animate-fade-in">
+            <div>
+                <h2 className="text-3xl font-bold text-white mb-2">Thank You</h2>
+                <p className="text-slate-400">
+                    {(phase?.type === 'debrief' && phase.message) || 'The study is complete. Thank you for taking part. The experimenter will now explain the purpose of the study.'}
+                </p>
+            </div>
+            <button onClick={restart} className="px-6 py-3 border border-slate-600 text-slate-400 hover:text-white rounded-lg transition-all">
+                New Participant
+            </button>
+          </div>
+        );
+
       default:
         return <div>Unknown State</div>;
     }
@@ -290,6 +615,8 @@ const App: React.FC = () => {
       <div className="relative z-10 w-full flex flex-col items-center justify-center">
         {renderContent()}
       </div>
+      <WorkloadStatus />
+      <MarkerStatus />
     </div>
   );
 };
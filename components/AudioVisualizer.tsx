@@ -1,8 +1,8 @@
 import React, { useEffect, useRef } from 'react';
-import { AudioPlayer } from '../utils/audio';
+import { AudioPlayer, SegmentedAudioPlayer } from '../utils/audio';
 
 interface AudioVisualizerProps {
-  audioPlayer: AudioPlayer | null;
+  audioPlayer: AudioPlayer | SegmentedAudioPlayer | null;
   isActive: boolean;
 }
 
@@ -0,0 +1,47 @@
+import React, { useState, useEffect } from 'react';
+
+interface BreakScreenProps {
+  durationMs?: number; // Minimum break length; continue is enabled once it has elapsed
+  message?: string;
+  onContinue: () => void;
+}
+
+const BreakScreen: React.FC<BreakScreenProps> = ({ durationMs = 0, message, onContinue }) => {
+  const [timeLeft, setTimeLeft] = useState(Math.ceil(durationMs / 1000));
+
+  useEffect(() => {
+    if (durationMs <= 0) return;
+    const endsAt = performance.now() + durationMs;
+    const interval = setInterval(() => {
+      const remaining = Math.max(0, Math.ceil((endsAt - performance.now()) / 1000));
+      setTimeLeft(remaining);
+      if (remaining === 0) clearInterval(interval);
+    }, 250);
+    return () => clearInterval(interval);
+  }, [durationMs]);
+
+  const formatTime = (seconds: number) => {
+    const m = Math.floor(seconds / 60);
+    const s = seconds % 60;
+    return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+  };
+
+  return (
+    <div className="max-w-xl text-center space-y-8 animate-fade-in">
+      <h2 className="text-3xl font-bold text-white">Break</h2>
+      <p className="text-slate-400">{message || 'Take a moment to relax before continuing.'}</p>
+      {timeLeft > 0 && (
+        <div className="text-5xl font-mono text-emerald-400 font-bold">{formatTime(timeLeft)}</div>
+      )}
+      <button
+        onClick={onContinue}
+        disabled={timeLeft > 0}
+        className={`px-8 py-4 rounded-lg font-bold text-lg transition-all ${timeLeft > 0 ? 'bg-slate-700 text-slate-500 cursor-not-allowed' : 'bg-emerald-600 hover:bg-emerald-500 text-white shadow-lg shadow-emerald-900/50'}`}
+      >
+        Continue
+      </button>
+    </div>
+  );
+};
+
+export default BreakScreen;
@@ -0,0 +1,120 @@
+import React, { useState, useEffect } from 'react';
+import {
+  GenerationCacheEntry, MAX_CACHE_BYTES, listCacheEntries, setCacheEntryPinned, deleteCacheEntries, clearGenerationCache
+} from '../utils/generationCache';
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+// Researcher tool (?tool=cache): lists the persistent generation cache, with pinning and clearing
+const CacheInspector: React.FC = () => {
+  const [entries, setEntries] = useState<GenerationCacheEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      const loaded = await listCacheEntries();
+      setEntries(loaded.sort((a, b) => b.lastUsedAt - a.lastUsedAt));
+      setError(null);
+    } catch (e: any) {
+      console.error("Failed to read generation cache", e);
+      setError(e.message || 'Could not read the cache.');
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (e: any) {
+      console.error("Cache update failed", e);
+      setError(e.message || 'Cache update failed.');
+    }
+    await refresh();
+  };
+
+  const totalBytes = entries?.reduce((sum, e) => sum + e.sizeBytes, 0) ?? 0;
+  const pinnedCount = entries?.filter(e => e.pinned).length ?? 0;
+
+  return (
+    <div className="max-w-5xl w-full bg-slate-800/90 p-8 rounded-2xl border border-slate-700 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Generation Cache</h2>
+          <p className="text-slate-400 text-sm mt-1 font-mono">
+            {entries ? `${entries.length} entries · ${pinnedCount} pinned · ${formatBytes(totalBytes)} of ${formatBytes(MAX_CACHE_BYTES)}` : 'Loading...'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => run(() => clearGenerationCache(false))}
+            className="px-4 py-2 rounded-lg text-sm font-bold bg-slate-700 hover:bg-slate-600 text-white transition-all"
+          >
+            Clear Unpinned
+          </button>
+          <button
+            onClick={() => window.confirm('Delete every cache entry, including pinned ones?') && run(() => clearGenerationCache(true))}
+            className="px-4 py-2 rounded-lg text-sm font-bold bg-rose-700 hover:bg-rose-600 text-white transition-all"
+          >
+            Clear All
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm font-mono text-rose-300">{error}</p>}
+
+      {entries && entries.length === 0 && <p className="text-slate-400 text-sm">The cache is empty.</p>}
+
+      {entries && entries.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left text-slate-300">
+            <thead className="text-xs uppercase tracking-wider text-slate-500 border-b border-slate-700">
+              <tr>
+                <th className="py-2 pr-4">Kind</th>
+                <th className="py-2 pr-4">Input</th>
+                <th className="py-2 pr-4">Model</th>
+                <th className="py-2 pr-4">Prompt</th>
+                <th className="py-2 pr-4 text-right">Size</th>
+                <th className="py-2 pr-4 text-right">Hits</th>
+                <th className="py-2 pr-4">Last Used</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map(entry => (
+                <tr key={entry.key} className="border-b border-slate-700/50">
+                  <td className="py-2 pr-4 font-mono">{entry.kind}</td>
+                  <td className="py-2 pr-4 max-w-xs truncate" title={entry.label}>{entry.label}</td>
+                  <td className="py-2 pr-4 font-mono text-xs">{entry.model}</td>
+                  <td className="py-2 pr-4 font-mono text-xs">{entry.promptVersion}</td>
+                  <td className="py-2 pr-4 text-right font-mono">{formatBytes(entry.sizeBytes)}</td>
+                  <td className="py-2 pr-4 text-right font-mono">{entry.hits}</td>
+                  <td className="py-2 pr-4 text-xs">{new Date(entry.lastUsedAt).toLocaleString()}</td>
+                  <td className="py-2 flex gap-2 justify-end">
+                    <button
+                      onClick={() => run(() => setCacheEntryPinned(entry.key, !entry.pinned))}
+                      className={`px-3 py-1 rounded text-xs font-bold transition-all ${entry.pinned ? 'bg-amber-500/20 text-amber-300 border border-amber-500/50' : 'bg-slate-700 hover:bg-slate-600 text-slate-200'}`}
+                    >
+                      {entry.pinned ? 'Pinned' : 'Pin'}
+                    </button>
+                    <button
+                      onClick={() => run(() => deleteCacheEntries([entry.key]))}
+                      className="px-3 py-1 rounded text-xs font-bold bg-slate-700 hover:bg-rose-700 text-slate-200 transition-all"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CacheInspector;
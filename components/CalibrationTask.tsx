@@ -1,75 +1,182 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { WorkloadCondition } from '../types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { WorkloadCondition, CalibrationConfig } from '../types';
+import { buildCalibrationTrials, generateArithmeticProblem, scoreArithmeticTrial } from '../utils/calibration';
+import { logger } from '../utils/eventLogger';
 import SparkleNoise from './SparkleNoise';
 
 interface CalibrationTaskProps {
+  config: CalibrationConfig;
   onComplete: () => void;
 }
 
-const TOTAL_TRIALS = 6; // Reduced from 40 for demo purposes, but enough to show flow
-const TRIAL_DURATION_MS = 10000; // 10 seconds
+// 'response' only occurs in 'final' response mode, after a HIGH trial
+type TrialPhase = 'iti' | 'trial' | 'response';
 
-const CalibrationTask: React.FC<CalibrationTaskProps> = ({ onComplete }) => {
-  const [trialCount, setTrialCount] = useState(0);
-  const [condition, setCondition] = useState<WorkloadCondition>(WorkloadCondition.LOW);
-  const [timeLeft, setTimeLeft] = useState(TRIAL_DURATION_MS / 1000);
+const CalibrationTask: React.FC<CalibrationTaskProps> = ({ config, onComplete }) => {
+  // Resolve the full trial list once so the logged sequence matches what is shown
+  const trials = useMemo(() => buildCalibrationTrials(config), [config]);
+
+  const [trialIndex, setTrialIndex] = useState(0);
+  const [phase, setPhase] = useState<TrialPhase>('iti');
+  const [timeLeft, setTimeLeft] = useState(0);
   const [mathState, setMathState] = useState<{ current: number; step: number } | null>(null);
+  const [inputValue, setInputValue] = useState('');
+  const [responseCount, setResponseCount] = useState(0);
 
-  // Helper to generate new math problem
-  const generateMathProblem = useCallback(() => {
-    const start = Math.floor(Math.random() * (1200 - 200 + 1)) + 200;
-    let step = Math.floor(Math.random() * (19 - 6 + 1)) + 6;
-    while (step === 10 || step === 15) {
-       step = Math.floor(Math.random() * (19 - 6 + 1)) + 6;
-    }
-    return { current: start, step };
-  }, []);
+  const onsetRef = useRef<number>(0); // performance.now() at trial onset
+  const promptRef = useRef<number>(0); // performance.now() when the final-result prompt appeared
+  const mathRef = useRef<{ current: number; step: number } | null>(null); // Read from timer callbacks
+  const entriesRef = useRef<{ value: number; latencyMs: number }[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
 
-  // Timer Effect
+  const trial = trials[trialIndex];
+  const capturesResponses = config.responseMode !== 'none' && trial?.condition === WorkloadCondition.HIGH;
+
+  // Log the resolved sequence at block start
   useEffect(() => {
-    if (trialCount >= TOTAL_TRIALS) {
+    logger.log('calibration_start', {
+      config,
+      sequence: trials.map(t => ({ condition: t.condition, durationMs: t.durationMs, interTrialIntervalMs: t.interTrialIntervalMs }))
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const advance = () => {
+    if (trialIndex >= trials.length - 1) {
+      logger.log('calibration_end', { trialsCompleted: trials.length });
       onComplete();
-      return;
+    } else {
+      setTrialIndex(prev => prev + 1);
+      setPhase('iti');
     }
+  };
 
-    const timer = setInterval(() => {
-      setTimeLeft((prev) => {
-        if (prev <= 1) {
-          // End of trial
-          clearInterval(timer);
-          nextTrial();
-          return TRIAL_DURATION_MS / 1000;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-
-    return () => clearInterval(timer);
-     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [trialCount]);
-
-  const nextTrial = () => {
-    setTrialCount((prev) => prev + 1);
-    // Alternate conditions: Even = Low (Rest), Odd = High (Math)
-    // Starting with Low (0 is even)
-    const nextCondition = (trialCount + 1) % 2 === 0 ? WorkloadCondition.LOW : WorkloadCondition.HIGH;
-    setCondition(nextCondition);
-    
-    if (nextCondition === WorkloadCondition.HIGH) {
-      setMathState(generateMathProblem());
-    } else {
+  const recordArithmeticResult = () => {
+    const math = mathRef.current;
+    if (!math || config.responseMode === 'none') return;
+    const result = scoreArithmeticTrial(trial.index, config.responseMode, math.current, math.step, entriesRef.current);
+    logger.recordCalibrationTrial(result);
+    logger.log('calibration_trial_score', {
+      trialIndex: trial.index,
+      subtractionCount: result.subtractionCount,
+      correctCount: result.correctCount,
+      accuracy: result.accuracy
+    });
+  };
+
+  // Trial Sequencing: fixation (ITI) -> trial [-> final response] -> next ITI ...
+  // Phase ends are scheduled with a single timeout of the exact duration rather
+  // than by counting interval ticks, so trial lengths do not drift.
+  useEffect(() => {
+    if (!trial) return;
+
+    if (phase === 'iti') {
+      mathRef.current = null;
       setMathState(null);
+      const timeout = setTimeout(() => setPhase('trial'), trial.interTrialIntervalMs);
+      return () => clearTimeout(timeout);
     }
-  };
 
-  // Setup initial trial
+    if (phase === 'response') {
+      promptRef.current = performance.now();
+      inputRef.current?.focus();
+      // Move on even if nothing is entered, scoring an empty response
+      const timeout = setTimeout(() => {
+        recordArithmeticResult();
+        advance();
+      }, config.finalResponseTimeoutMs);
+      return () => clearTimeout(timeout);
+    }
+
+    const math = trial.condition === WorkloadCondition.HIGH ? generateArithmeticProblem(config.arithmetic) : null;
+    mathRef.current = math;
+    setMathState(math);
+    entriesRef.current = [];
+    setResponseCount(0);
+    setInputValue('');
+    onsetRef.current = performance.now();
+    logger.log('calibration_trial_onset', {
+      trialIndex: trial.index,
+      condition: trial.condition,
+      scheduledDurationMs: trial.durationMs,
+      onsetPerfMs: onsetRef.current,
+      ...(math && { startNumber: math.current, step: math.step, responseMode: config.responseMode })
+    });
+
+    const timeout = setTimeout(() => {
+      const offset = performance.now();
+      logger.log('calibration_trial_offset', {
+        trialIndex: trial.index,
+        condition: trial.condition,
+        offsetPerfMs: offset,
+        actualDurationMs: offset - onsetRef.current
+      });
+
+      if (math && config.responseMode === 'final') {
+        setPhase('response');
+        return;
+      }
+      if (math) recordArithmeticResult();
+      advance();
+    }, trial.durationMs);
+
+    return () => clearTimeout(timeout);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [trialIndex, phase]);
+
+  // Countdown display, derived from the onset so it cannot drift from the trial timer
   useEffect(() => {
-    // Initial setup
-    setCondition(WorkloadCondition.LOW);
-     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+    if (phase !== 'trial' || !trial) return;
+    const update = () => {
+      const remaining = trial.durationMs - (performance.now() - onsetRef.current);
+      setTimeLeft(Math.max(0, Math.ceil(remaining / 1000)));
+    };
+    update();
+    const interval = setInterval(update, 250);
+    return () => clearInterval(interval);
+  }, [phase, trial]);
 
-  if (trialCount >= TOTAL_TRIALS) return null;
+  // Focus the answer box when a response-capturing trial starts
+  useEffect(() => {
+    if (phase === 'trial' && capturesResponses && config.responseMode === 'intermediate') {
+      inputRef.current?.focus();
+    }
+  }, [phase, capturesResponses, config.responseMode]);
+
+  const handleResponseSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseInt(inputValue, 10);
+    if (isNaN(value)) return;
+    setInputValue('');
+
+    if (phase === 'response') {
+      entriesRef.current = [{ value, latencyMs: performance.now() - promptRef.current }];
+      recordArithmeticResult();
+      advance();
+      return;
+    }
+
+    entriesRef.current.push({ value, latencyMs: performance.now() - onsetRef.current });
+    setResponseCount(entriesRef.current.length);
+  };
+
+  if (!trial) return null;
+
+  const responseInput = (
+    <form onSubmit={handleResponseSubmit} className="flex gap-3 w-full max-w-xs">
+      <input
+        ref={inputRef}
+        type="number"
+        inputMode="numeric"
+        value={inputValue}
+        onChange={(e) => setInputValue(e.target.value)}
+        className="flex-1 bg-slate-800 border border-slate-600 rounded-lg px-4 py-3 text-white text-xl font-mono text-center focus:outline-none focus:border-rose-400"
+      />
+      <button type="submit" className="px-4 py-3 bg-rose-600 hover:bg-rose-500 text-white rounded-lg font-bold transition-colors">
+        Enter
+      </button>
+    </form>
+  );
 
   return (
     <div className="relative w-full h-full flex flex-col items-center justify-center overflow-hidden">
@@ -79,14 +186,24 @@ const CalibrationTask: React.FC<CalibrationTaskProps> = ({ onComplete }) => {
       <div className="z-10 bg-slate-900/80 p-12 rounded-3xl backdrop-blur-sm border border-slate-700 text-center shadow-2xl max-w-xl w-full">
         <div className="mb-8">
             <span className="inline-block px-3 py-1 rounded-full bg-slate-700 text-slate-300 text-sm font-mono">
-                Trial {trialCount + 1} / {TOTAL_TRIALS}
+                Trial {trialIndex + 1} / {trials.length}
             </span>
             <div className="mt-2 text-slate-500 text-xs uppercase tracking-widest font-bold">
-                Time Remaining: {timeLeft}s
+                {phase === 'trial' ? `Time Remaining: ${timeLeft}s` : phase === 'response' ? 'Time Up' : 'Get Ready'}
             </div>
         </div>
 
-        {condition === WorkloadCondition.LOW ? (
+        {phase === 'iti' ? (
+          <div className="flex flex-col items-center">
+            <div className="text-6xl text-slate-500 font-light mb-4">+</div>
+            <p className="text-slate-500">Focus on the cross.</p>
+          </div>
+        ) : phase === 'response' ? (
+          <div className="flex flex-col items-center gap-6">
+            <h2 className="text-2xl text-rose-400 font-bold">What was your last result?</h2>
+            {responseInput}
+          </div>
+        ) : trial.condition === WorkloadCondition.LOW ? (
           <div className="flex flex-col items-center animate-pulse">
             <div className="text-6xl text-emerald-400 font-light mb-4">+</div>
             <h2 className="text-2xl text-slate-200">Rest State</h2>
@@ -101,9 +218,20 @@ const CalibrationTask: React.FC<CalibrationTaskProps> = ({ onComplete }) => {
             <div className="text-xl text-slate-400 font-mono mb-8">
               - {mathState?.step}
             </div>
-            <p className="text-sm text-slate-400">
-              Keep subtracting <b>{mathState?.step}</b> from the previous result in your head.
-            </p>
+            {config.responseMode === 'intermediate' ? (
+              <>
+                <p className="text-sm text-slate-400 mb-4">
+                  Keep subtracting <b>{mathState?.step}</b> from the previous result and type each result, pressing Enter after each one.
+                </p>
+                {responseInput}
+                <p className="mt-3 text-xs text-slate-500 font-mono">{responseCount} entered</p>
+              </>
+            ) : (
+              <p className="text-sm text-slate-400">
+                Keep subtracting <b>{mathState?.step}</b> from the previous result in your head.
+                {config.responseMode === 'final' && <> You will be asked for your last result.</>}
+              </p>
+            )}
           </div>
         )}
       </div>
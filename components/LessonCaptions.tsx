@@ -0,0 +1,58 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CaptionMode } from '../types';
+import { SegmentedAudioPlayer } from '../utils/audio';
+import { buildCaptionTimeline, findCaption } from '../utils/captions';
+
+interface LessonCaptionsProps {
+  player: SegmentedAudioPlayer | null;
+  mode: CaptionMode;
+  isActive: boolean; // Follows playback only while the lesson plays
+}
+
+// Lesson captions, kept in step with the player's position (see utils/captions.ts)
+const LessonCaptions: React.FC<LessonCaptionsProps> = ({ player, mode, isActive }) => {
+  const timeline = useMemo(() => player ? buildCaptionTimeline(player.getSegments()) : [], [player]);
+  const [position, setPosition] = useState({ sentenceIndex: 0, wordIndex: 0 });
+
+  useEffect(() => {
+    if (!player || mode === 'none' || mode === 'full') return;
+    const update = () => {
+      const next = findCaption(timeline, player.getCurrentTime() * 1000);
+      setPosition(prev => prev.sentenceIndex === next.sentenceIndex && prev.wordIndex === next.wordIndex ? prev : next);
+    };
+    // Once when paused too, so a seek (e.g. a recap) shows the right sentence
+    update();
+    if (!isActive) return;
+    let frame = requestAnimationFrame(function tick() {
+      update();
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [player, timeline, mode, isActive]);
+
+  if (mode === 'none' || timeline.length === 0) return null;
+
+  if (mode === 'full') {
+    return (
+      <div className="max-w-2xl max-h-48 overflow-y-auto mx-auto p-4 rounded-xl bg-slate-900/60 border border-slate-700 text-left text-slate-200 leading-relaxed">
+        {timeline.map(s => s.text).join(' ')}
+      </div>
+    );
+  }
+
+  const sentence = timeline[position.sentenceIndex];
+  return (
+    <p className="max-w-2xl mx-auto min-h-[4rem] px-4 py-3 rounded-xl bg-slate-900/60 border border-slate-700 text-lg leading-relaxed text-slate-200">
+      {mode === 'sentence' ? sentence.text : sentence.words.map((word, i) => (
+        <span
+          key={i}
+          className={i === position.wordIndex ? 'text-white font-semibold bg-blue-500/30 rounded' : i < position.wordIndex ? 'text-slate-200' : 'text-slate-500'}
+        >
+          {word.text}{' '}
+        </span>
+      ))}
+    </p>
+  );
+};
+
+export default LessonCaptions;
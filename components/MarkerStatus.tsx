@@ -0,0 +1,31 @@
+import React, { useState, useEffect } from 'react';
+import { markerStream, MarkerStreamStatus } from '../utils/markerStream';
+
+const STATUS_STYLES: Record<Exclude<MarkerStreamStatus, 'disabled'>, { dot: string; label: string }> = {
+  connecting: { dot: 'bg-amber-400 animate-pulse', label: 'Markers: connecting' },
+  connected: { dot: 'bg-emerald-400', label: 'Markers: live' },
+  disconnected: { dot: 'bg-rose-500', label: 'Markers: offline' }
+};
+
+// Small corner badge for the experimenter; hidden when no marker stream is configured
+const MarkerStatus: React.FC = () => {
+  const [status, setStatus] = useState<MarkerStreamStatus>(markerStream.getStatus());
+  const [queued, setQueued] = useState(markerStream.getQueueLength());
+
+  useEffect(() => markerStream.subscribe((newStatus, queueLength) => {
+    setStatus(newStatus);
+    setQueued(queueLength);
+  }), []);
+
+  if (status === 'disabled') return null;
+  const style = STATUS_STYLES[status];
+  return (
+    <div className="fixed bottom-3 right-3 z-50 flex items-center gap-2 px-3 py-1.5 rounded-full bg-slate-900/80 border border-slate-700 text-xs text-slate-300">
+      <span className={`w-2 h-2 rounded-full ${style.dot}`}></span>
+      <span>{style.label}</span>
+      {queued > 0 && <span className="text-amber-400">({queued} queued)</span>}
+    </div>
+  );
+};
+
+export default MarkerStatus;
@@ -1,16 +1,20 @@
-import React, { useState } from 'react';
-import { NasaTlxResult } from '../types';
+import React, { useState, useMemo } from 'react';
+import { NasaTlxResult, NasaTlxRatings, NasaTlxPairwiseChoice, NasaTlxSubscale } from '../types';
+import { NASA_TLX_SUBSCALES, buildPairwiseComparisons, shufflePairs, buildNasaTlxResult, getSubscaleDefinition } from '../utils/nasaTlx';
 
 interface NasaTlxFormProps {
   onSubmit: (result: NasaTlxResult) => void;
+  includeWeighting?: boolean; // Run the 15 pairwise comparisons after the ratings
 }
 
 const SliderQuestion: React.FC<{
   label: string;
   description: string;
+  lowAnchor: string;
+  highAnchor: string;
   value: number;
   onChange: (val: number) => void;
-}> = ({ label, description, value, onChange }) => (
+}> = ({ label, description, lowAnchor, highAnchor, value, onChange }) => (
   <div className="mb-6">
     <div className="flex justify-between items-end mb-2">
         <label className="text-lg font-semibold text-slate-200">{label}</label>
@@ -21,62 +25,99 @@ const SliderQuestion: React.FC<{
       type="range"
       min="0"
       max="100"
+      step="5"
       value={value}
       onChange={(e) => onChange(parseInt(e.target.value))}
       className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
     />
     <div className="flex justify-between text-xs text-slate-500 mt-1">
-        <span>Low</span>
-        <span>High</span>
+        <span>{lowAnchor}</span>
+        <span>{highAnchor}</span>
     </div>
   </div>
 );
 
-const NasaTlxForm: React.FC<NasaTlxFormProps> = ({ onSubmit }) => {
-  const [mentalDemand, setMentalDemand] = useState(50);
-  const [performance, setPerformance] = useState(50);
-  const [effort, setEffort] = useState(50);
-  const [frustration, setFrustration] = useState(50);
+const NasaTlxForm: React.FC<NasaTlxFormProps> = ({ onSubmit, includeWeighting = false }) => {
+  const [ratings, setRatings] = useState<NasaTlxRatings>(
+    Object.fromEntries(NASA_TLX_SUBSCALES.map(s => [s.id, 50])) as NasaTlxRatings
+  );
+  const [step, setStep] = useState<'rating' | 'weighting'>('rating');
+  const [pairIndex, setPairIndex] = useState(0);
+  const [choices, setChoices] = useState<NasaTlxPairwiseChoice[]>([]);
+
+  const pairs = useMemo(() => shufflePairs(buildPairwiseComparisons()), []);
+
+  const handleRatingsSubmit = () => {
+    if (includeWeighting) {
+      setStep('weighting');
+    } else {
+      onSubmit(buildNasaTlxResult(ratings));
+    }
+  };
 
-  const handleSubmit = () => {
-    onSubmit({ mentalDemand, performance, effort, frustration });
+  const handleChoice = (chosen: NasaTlxSubscale) => {
+    const newChoices = [...choices, { pair: pairs[pairIndex], chosen }];
+    setChoices(newChoices);
+    if (pairIndex < pairs.length - 1) {
+      setPairIndex(prev => prev + 1);
+    } else {
+      onSubmit(buildNasaTlxResult(ratings, newChoices));
+    }
   };
 
+  if (step === 'weighting') {
+    const [left, right] = pairs[pairIndex];
+    return (
+      <div className="bg-slate-800 p-8 rounded-2xl max-w-2xl w-full shadow-xl border border-slate-700">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl font-bold text-white">Sources of Workload</h2>
+          <span className="text-sm font-mono text-slate-400 bg-slate-900 px-3 py-1 rounded-full">
+            {pairIndex + 1} / {pairs.length}
+          </span>
+        </div>
+        <p className="text-slate-400 mb-8 text-center">Which of these contributed more to the workload of the last session?</p>
+
+        <div className="grid grid-cols-2 gap-4">
+          {[left, right].map(id => {
+            const def = getSubscaleDefinition(id);
+            return (
+              <button
+                key={id}
+                onClick={() => handleChoice(id)}
+                className="p-6 rounded-xl bg-slate-700/50 hover:bg-blue-600 border border-transparent hover:border-blue-400 text-left transition-all"
+              >
+                <div className="text-lg font-semibold text-slate-100 mb-2">{def.label}</div>
+                <div className="text-sm text-slate-400">{def.description}</div>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="bg-slate-800 p-8 rounded-2xl max-w-2xl w-full shadow-xl border border-slate-700">
       <h2 className="text-2xl font-bold mb-6 text-white text-center">Subjective Workload Rating</h2>
       <p className="text-slate-400 mb-8 text-center">Please rate your experience during the last session.</p>
 
-      <SliderQuestion
-        label="Mental Demand"
-        description="How much mental and perceptual activity was required?"
-        value={mentalDemand}
-        onChange={setMentalDemand}
-      />
-      <SliderQuestion
-        label="Performance"
-        description="How successful were you in accomplishing what you were asked to do?"
-        value={performance}
-        onChange={setPerformance}
-      />
-      <SliderQuestion
-        label="Effort"
-        description="How hard did you have to work to accomplish your level of performance?"
-        value={effort}
-        onChange={setEffort}
-      />
-      <SliderQuestion
-        label="Frustration"
-        description="How insecure, discouraged, irritated, stressed, and annoyed were you?"
-        value={frustration}
-        onChange={setFrustration}
-      />
+      {NASA_TLX_SUBSCALES.map(s => (
+        <SliderQuestion
+          key={s.id}
+          label={s.label}
+          description={s.description}
+          lowAnchor={s.lowAnchor}
+          highAnchor={s.highAnchor}
+          value={ratings[s.id]}
+          onChange={(val) => setRatings(prev => ({ ...prev, [s.id]: val }))}
+        />
+      ))}
 
       <button
-        onClick={handleSubmit}
+        onClick={handleRatingsSubmit}
         className="w-full mt-4 bg-blue-600 hover:bg-blue-500 text-white font-bold py-3 px-6 rounded-lg transition-colors"
       >
-        Submit Rating
+        {includeWeighting ? 'Continue' : 'Submit Rating'}
       </button>
     </div>
   );
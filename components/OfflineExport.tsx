@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { ContentPack } from '../types';
+import { buildOfflineBundle, OfflineExportProgress } from '../services/offlineExport';
+
+interface OfflineExportProps {
+  packs: ContentPack[];
+}
+
+// Researcher tool (?tool=offline-export): builds an offline bundle per installed pack
+const OfflineExport: React.FC<OfflineExportProps> = ({ packs }) => {
+  const [busyPackId, setBusyPackId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<OfflineExportProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (pack: ContentPack) => {
+    setBusyPackId(pack.id);
+    setError(null);
+    try {
+      const bundle = await buildOfflineBundle(pack, setProgress);
+      // Bundles hold all lesson audio, too large for a data: URL
+      const url = URL.createObjectURL(new Blob([JSON.stringify(bundle)], { type: 'application/json' }));
+      const anchor = document.createElement('a');
+      anchor.href = url;
+      anchor.download = `${pack.id}-offline.json`;
+      document.body.appendChild(anchor);
+      anchor.click();
+      anchor.remove();
+      URL.revokeObjectURL(url);
+    } catch (e: any) {
+      console.error("Offline export failed", e);
+      setError(e.message || 'Export failed.');
+    } finally {
+      setBusyPackId(null);
+    }
+  };
+
+  return (
+    <div className="max-w-2xl w-full bg-slate-800/90 p-8 rounded-2xl border border-slate-700 space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-white">Offline Bundle Export</h2>
+        <p className="text-slate-400 text-sm mt-2">
+          Generates every quiz, pre-test and lesson recording of a pack and downloads it as one file. Place the file in
+          <span className="font-mono"> public/content/</span>, list it under <span className="font-mono">"contentPacks"</span> and
+          add <span className="font-mono">"offline"</span> to the protocol.
+        </p>
+      </div>
+
+      <ul className="space-y-3">
+        {packs.map(pack => (
+          <li key={pack.id} className="flex items-center justify-between gap-4 p-4 rounded-xl bg-slate-900/60 border border-slate-700">
+            <div>
+              <p className="font-bold text-white">{pack.title || pack.id}</p>
+              <p className="text-xs font-mono text-slate-400">{pack.id}@{pack.version} · {pack.topics.length} topics</p>
+            </div>
+            <button
+              onClick={() => handleExport(pack)}
+              disabled={busyPackId !== null}
+              className={`px-5 py-2 rounded-lg font-bold transition-all ${busyPackId !== null ? 'bg-slate-700 text-slate-500 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-500 text-white'}`}
+            >
+              {busyPackId === pack.id ? 'Exporting...' : 'Export'}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {busyPackId && progress && (
+        <div className="space-y-2">
+          <div className="h-2 rounded-full bg-slate-700 overflow-hidden">
+            <div className="h-full bg-blue-500 transition-all" style={{ width: `${(progress.done / progress.total) * 100}%` }}></div>
+          </div>
+          <p className="text-xs font-mono text-slate-400">{progress.done} / {progress.total} · {progress.current}</p>
+        </div>
+      )}
+
+      {error && <p className="text-sm font-mono text-rose-300">{error}</p>}
+    </div>
+  );
+};
+
+export default OfflineExport;
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { ParticipantInfo } from '../types';
+
+interface ParticipantRegistrationProps {
+  onRegister: (participant: ParticipantInfo) => void;
+  onDecline: () => void;
+}
+
+const PARTICIPANT_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const CONSENT_POINTS = [
+  'I have read the participant information sheet and had the opportunity to ask questions.',
+  'I understand that my participation is voluntary and that I may withdraw at any time without giving a reason.',
+  'I agree to my interaction data, quiz answers, workload ratings and recorded spoken questions being stored for research purposes.',
+  'I understand that my data will be stored under a participant ID and not linked to my name.'
+];
+
+const FieldLabel: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <label className="block text-sm font-medium text-slate-400 mb-2 uppercase tracking-widest">{children}</label>
+);
+
+const inputClass = "w-full bg-slate-900/60 border border-slate-600 rounded-lg px-4 py-3 text-white focus:outline-none focus:border-blue-500";
+
+const ParticipantRegistration: React.FC<ParticipantRegistrationProps> = ({ onRegister, onDecline }) => {
+  const [participantId, setParticipantId] = useState('');
+  const [age, setAge] = useState('');
+  const [gender, setGender] = useState('');
+  const [handedness, setHandedness] = useState('');
+  const [nativeLanguage, setNativeLanguage] = useState('');
+  const [education, setEducation] = useState('');
+  const [consentChecked, setConsentChecked] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = () => {
+    const trimmedId = participantId.trim();
+    if (!trimmedId || !PARTICIPANT_ID_PATTERN.test(trimmedId)) {
+      setError('Enter a participant ID using letters, digits, "-" or "_".');
+      return;
+    }
+    const parsedAge = age ? parseInt(age, 10) : undefined;
+    if (parsedAge !== undefined && (isNaN(parsedAge) || parsedAge < 16 || parsedAge > 120)) {
+      setError('Age must be between 16 and 120.');
+      return;
+    }
+    if (!consentChecked) {
+      setError('Informed consent is required to take part in the study.');
+      return;
+    }
+
+    onRegister({
+      participantId: trimmedId,
+      demographics: {
+        age: parsedAge,
+        gender: gender || undefined,
+        handedness: handedness || undefined,
+        nativeLanguage: nativeLanguage.trim() || undefined,
+        education: education || undefined
+      },
+      consentGiven: true,
+      consentTimestamp: Date.now()
+    });
+  };
+
+  return (
+    <div className="max-w-2xl w-full bg-slate-800/90 backdrop-blur-md p-8 rounded-2xl shadow-xl border border-slate-700 animate-fade-in">
+      <h2 className="text-2xl font-bold text-white mb-2 text-center">Participant Registration</h2>
+      <p className="text-slate-400 mb-8 text-center">To be completed by the experimenter together with the participant.</p>
+
+      <div className="space-y-6">
+        <div>
+          <FieldLabel>Participant ID</FieldLabel>
+          <input
+            type="text"
+            value={participantId}
+            onChange={(e) => setParticipantId(e.target.value)}
+            placeholder="e.g. P017"
+            className={`${inputClass} font-mono`}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <FieldLabel>Age</FieldLabel>
+            <input type="number" min="16" max="120" value={age} onChange={(e) => setAge(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <FieldLabel>Gender</FieldLabel>
+            <select value={gender} onChange={(e) => setGender(e.target.value)} className={inputClass}>
+              <option value="">Prefer not to say</option>
+              <option value="female">Female</option>
+              <option value="male">Male</option>
+              <option value="non-binary">Non-binary</option>
+              <option value="other">Other</option>
+            </select>
+          </div>
+          <div>
+            <FieldLabel>Handedness</FieldLabel>
+            <select value={handedness} onChange={(e) => setHandedness(e.target.value)} className={inputClass}>
+              <option value="">Not recorded</option>
+              <option value="right">Right</option>
+              <option value="left">Left</option>
+              <option value="ambidextrous">Ambidextrous</option>
+            </select>
+          </div>
+          <div>
+            <FieldLabel>Education</FieldLabel>
+            <select value={education} onChange={(e) => setEducation(e.target.value)} className={inputClass}>
+              <option value="">Not recorded</option>
+              <option value="secondary">Secondary school</option>
+              <option value="undergraduate">Undergraduate</option>
+              <option value="postgraduate">Postgraduate</option>
+              <option value="other">Other</option>
+            </select>
+          </div>
+          <div className="md:col-span-2">
+            <FieldLabel>Native Language</FieldLabel>
+            <input type="text" value={nativeLanguage} onChange={(e) => setNativeLanguage(e.target.value)} className={inputClass} />
+          </div>
+        </div>
+
+        <div className="bg-slate-900/50 p-6 rounded-xl border border-slate-700 space-y-3">
+          <h3 className="text-lg font-bold text-white">Informed Consent</h3>
+          <ul className="list-disc list-inside text-slate-300 space-y-2 text-sm">
+            {CONSENT_POINTS.map((point, i) => <li key={i}>{point}</li>)}
+          </ul>
+          <label className="flex items-center gap-3 pt-2 text-slate-200 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={consentChecked}
+              onChange={(e) => setConsentChecked(e.target.checked)}
+              className="w-5 h-5 accent-emerald-500"
+            />
+            I consent to take part in this study.
+          </label>
+        </div>
+
+        {error && <p className="text-rose-400 text-sm text-center">{error}</p>}
+
+        <div className="flex gap-4">
+          <button
+            onClick={onDecline}
+            className="flex-1 py-4 border border-slate-600 text-slate-400 hover:text-white rounded-xl transition-all"
+          >
+            Decline
+          </button>
+          <button
+            onClick={handleSubmit}
+            className="flex-[2] py-4 bg-emerald-600 hover:bg-emerald-500 text-white font-bold rounded-xl shadow-lg shadow-emerald-900/50 transition-all"
+          >
+            Register & Continue
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ParticipantRegistration;
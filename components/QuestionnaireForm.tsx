@@ -0,0 +1,152 @@
+import React, { useState, useRef } from 'react';
+import { QuestionnaireDefinition, QuestionnaireItem, QuestionnaireAnswer, QuestionnaireResponse } from '../types';
+import { scoreQuestionnaire } from '../utils/questionnaires';
+
+interface QuestionnaireFormProps {
+  definition: QuestionnaireDefinition;
+  onSubmit: (response: QuestionnaireResponse) => void;
+}
+
+const ItemInput: React.FC<{
+  item: QuestionnaireItem;
+  value: QuestionnaireAnswer;
+  onChange: (val: QuestionnaireAnswer) => void;
+}> = ({ item, value, onChange }) => {
+  switch (item.type) {
+    case 'likert': {
+      const points = item.scalePoints ?? 7;
+      const perPointLabels = item.anchors && item.anchors.length === points;
+      return (
+        <div>
+          <div className="flex justify-between gap-2">
+            {Array.from({ length: points }, (_, i) => i + 1).map(point => (
+              <button
+                key={point}
+                onClick={() => onChange(point)}
+                className={`flex-1 py-3 rounded-lg border text-sm font-bold transition-all ${value === point ? 'bg-blue-600 border-blue-400 text-white' : 'bg-slate-700/50 border-slate-600 text-slate-400 hover:bg-slate-700'}`}
+              >
+                {perPointLabels ? item.anchors![point - 1] : point}
+              </button>
+            ))}
+          </div>
+          {item.anchors && !perPointLabels && (
+            <div className="flex justify-between text-xs text-slate-500 mt-1">
+              <span>{item.anchors[0]}</span>
+              <span>{item.anchors[item.anchors.length - 1]}</span>
+            </div>
+          )}
+        </div>
+      );
+    }
+    case 'slider': {
+      const min = item.min ?? 0;
+      const max = item.max ?? 100;
+      // Also on release: clicking the thumb where it starts (the midpoint) fires no change event
+      const record = (e: React.SyntheticEvent<HTMLInputElement>) => onChange(parseFloat(e.currentTarget.value));
+      return (
+        <div>
+          <div className="flex justify-end text-sm text-slate-400 mb-1">{value ?? '–'}/{max}</div>
+          <input
+            type="range"
+            min={min}
+            max={max}
+            step={item.step ?? 1}
+            value={typeof value === 'number' ? value : (min + max) / 2}
+            onChange={record}
+            onPointerUp={record}
+            className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+          />
+          {item.anchors && (
+            <div className="flex justify-between text-xs text-slate-500 mt-1">
+              <span>{item.anchors[0]}</span>
+              <span>{item.anchors[item.anchors.length - 1]}</span>
+            </div>
+          )}
+        </div>
+      );
+    }
+    case 'choice':
+      return (
+        <div className="space-y-2">
+          {item.options!.map((option, idx) => (
+            <button
+              key={idx}
+              onClick={() => onChange(idx)}
+              className={`w-full text-left p-3 rounded-lg border transition-all ${value === idx ? 'bg-blue-600 border-blue-400 text-white' : 'bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-700'}`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      );
+    case 'text':
+      return (
+        <textarea
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value || null)}
+          rows={3}
+          className="w-full bg-slate-900/60 border border-slate-600 rounded-lg px-4 py-3 text-white focus:outline-none focus:border-blue-500"
+        />
+      );
+  }
+};
+
+const QuestionnaireForm: React.FC<QuestionnaireFormProps> = ({ definition, onSubmit }) => {
+  const [responses, setResponses] = useState<Record<string, QuestionnaireAnswer>>(
+    Object.fromEntries(definition.items.map(item => [item.id, null]))
+  );
+  const [showMissing, setShowMissing] = useState(false);
+  const startedAtRef = useRef(Date.now());
+
+  const missing = definition.items.filter(item => item.required && (responses[item.id] === null || responses[item.id] === ''));
+
+  const handleSubmit = () => {
+    if (missing.length > 0) {
+      setShowMissing(true);
+      return;
+    }
+    onSubmit({
+      instrumentId: definition.id,
+      responses,
+      score: scoreQuestionnaire(definition, responses),
+      startedAt: startedAtRef.current,
+      completedAt: Date.now()
+    });
+  };
+
+  return (
+    <div className="bg-slate-800 p-8 rounded-2xl max-w-2xl w-full shadow-xl border border-slate-700">
+      <h2 className="text-2xl font-bold mb-6 text-white text-center">{definition.title}</h2>
+      {definition.instructions && <p className="text-slate-400 mb-8 text-center">{definition.instructions}</p>}
+
+      {definition.items.map(item => {
+        const isMissing = showMissing && missing.includes(item);
+        return (
+          <div key={item.id} className="mb-6">
+            <label className={`block text-lg font-semibold mb-3 ${isMissing ? 'text-rose-400' : 'text-slate-200'}`}>
+              {item.text}{item.required && <span className="text-rose-400"> *</span>}
+            </label>
+            <ItemInput
+              item={item}
+              value={responses[item.id]}
+              onChange={(val) => setResponses(prev => ({ ...prev, [item.id]: val }))}
+            />
+          </div>
+        );
+      })}
+
+      {showMissing && missing.length > 0 && (
+        <p className="text-rose-400 text-sm text-center mb-2">Please answer all required questions.</p>
+      )}
+
+      <button
+        onClick={handleSubmit}
+        className="w-full mt-4 bg-blue-600 hover:bg-blue-500 text-white font-bold py-3 px-6 rounded-lg transition-colors"
+      >
+        Continue
+      </button>
+    </div>
+  );
+};
+
+export default QuestionnaireForm;
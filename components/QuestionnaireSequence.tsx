@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { NasaTlxResult, QuestionnaireResponse } from '../types';
+import { NASA_TLX_ID, getQuestionnaire } from '../utils/questionnaires';
+import NasaTlxForm from './NasaTlxForm';
+import QuestionnaireForm from './QuestionnaireForm';
+
+interface QuestionnaireSequenceProps {
+  questionnaires: string[]; // Instrument IDs, shown in order
+  includeTlxWeighting?: boolean;
+  onNasaTlx: (rating: NasaTlxResult) => void;
+  onResponse: (response: QuestionnaireResponse) => void;
+  onComplete: (rating: NasaTlxResult | undefined, scores: Record<string, number | undefined>) => void;
+}
+
+const QuestionnaireSequence: React.FC<QuestionnaireSequenceProps> = ({ questionnaires, includeTlxWeighting = false, onNasaTlx, onResponse, onComplete }) => {
+  const [index, setIndex] = useState(0);
+  const [rating, setRating] = useState<NasaTlxResult | undefined>(undefined);
+  const [scores, setScores] = useState<Record<string, number | undefined>>({});
+
+  const advance = (finalRating: NasaTlxResult | undefined, finalScores: Record<string, number | undefined>) => {
+    if (index < questionnaires.length - 1) {
+      setIndex(prev => prev + 1);
+    } else {
+      onComplete(finalRating, finalScores);
+    }
+  };
+
+  const handleNasaTlx = (tlx: NasaTlxResult) => {
+    onNasaTlx(tlx);
+    setRating(tlx);
+    advance(tlx, scores);
+  };
+
+  const handleResponse = (response: QuestionnaireResponse) => {
+    onResponse(response);
+    const newScores = { ...scores, [response.instrumentId]: response.score };
+    setScores(newScores);
+    advance(rating, newScores);
+  };
+
+  const instrumentId = questionnaires[index];
+  if (!instrumentId) return null;
+  return instrumentId === NASA_TLX_ID ? (
+    <NasaTlxForm onSubmit={handleNasaTlx} includeWeighting={includeTlxWeighting} />
+  ) : (
+    <QuestionnaireForm key={instrumentId} definition={getQuestionnaire(instrumentId)} onSubmit={handleResponse} />
+  );
+};
+
+export default QuestionnaireSequence;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { QuizQuestion } from '../types';
+
+interface QuizCardProps {
+  title: string;
+  question: QuizQuestion;
+  index: number;
+  total: number;
+  onAnswer: (optionIndex: number) => void;
+  onSkip: () => void;
+  onPrevious: () => void;
+  skipLabel?: string;
+}
+
+const QuizCard: React.FC<QuizCardProps> = ({ title, question, index, total, onAnswer, onSkip, onPrevious, skipLabel = 'Skip Question' }) => (
+  <div className="max-w-2xl w-full mx-auto p-4">
+    <div className="bg-slate-800/80 backdrop-blur p-8 rounded-3xl shadow-2xl border border-slate-700/50">
+        <div className="flex justify-between items-center mb-8 border-b border-slate-700 pb-4">
+            <h3 className="text-xl font-bold text-white flex items-center gap-2">
+                <span className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center text-sm">?</span>
+                {title}
+            </h3>
+            <span className="text-sm font-mono text-slate-400 bg-slate-900 px-3 py-1 rounded-full">
+                {index + 1} / {total}
+            </span>
+        </div>
+        
+        <p className="text-xl text-slate-100 mb-8 font-medium leading-relaxed">{question.question}</p>
+        
+        <div className="space-y-4">
+        {question.options.map((option, idx) => (
+            <button
+            key={idx}
+            onClick={() => onAnswer(idx)}
+            className="w-full text-left p-5 rounded-xl bg-slate-700/50 hover:bg-blue-600 hover:shadow-lg hover:shadow-blue-900/20 text-slate-200 transition-all border border-transparent hover:border-blue-400 group flex items-center"
+            >
+            <span className="w-8 h-8 rounded-full border border-slate-500 group-hover:border-white mr-4 flex items-center justify-center text-sm text-slate-400 group-hover:text-white transition-colors">
+                {String.fromCharCode(65 + idx)}
+            </span>
+            {option}
+            </button>
+        ))}
+        </div>
+
+        <div className="mt-8 flex justify-between items-center">
+            <button 
+                onClick={onPrevious}
+                disabled={index === 0}
+                className={`px-4 py-2 flex items-center gap-1 font-medium text-sm transition-colors ${
+                    index === 0 
+                    ? 'text-slate-600 cursor-not-allowed' 
+                    : 'text-slate-500 hover:text-slate-300 group'
+                }`}
+            >
+                <svg className={`w-4 h-4 ${index !== 0 && 'group-hover:-translate-x-1'} transition-transform`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M11 17l-5-5m0 0l5-5m-5 5h12"></path></svg>
+                Previous
+            </button>
+
+            <button 
+              onClick={onSkip}
+              className="px-4 py-2 text-slate-500 hover:text-slate-300 transition-colors flex items-center gap-1 font-medium text-sm group"
+            >
+              {skipLabel}
+              <svg className="w-4 h-4 group-hover:translate-x-1 transition-transform" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 7l5 5m0 0l-5 5m5-5H6"></path></svg>
+            </button>
+        </div>
+    </div>
+  </div>
+);
+
+export default QuizCard;
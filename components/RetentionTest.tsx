@@ -0,0 +1,74 @@
+import React, { useState, useMemo } from 'react';
+import { SessionLog, RetentionResult, buildQuizDetails, accuracyByLevel } from '../utils/eventLogger';
+import QuizCard from './QuizCard';
+
+interface RetentionTestProps {
+  sessions: SessionLog[]; // Earlier tutoring sessions with stored quiz items
+  onComplete: (results: RetentionResult[]) => void;
+}
+
+const RetentionTest: React.FC<RetentionTestProps> = ({ sessions, onComplete }) => {
+  // All stored items, grouped by original session in the order they were taken
+  const items = useMemo(
+    () => sessions.flatMap(session => session.quizQuestions!.map(question => ({ session, question }))),
+    [sessions]
+  );
+  const [index, setIndex] = useState(0);
+  const [answers, setAnswers] = useState<number[]>([]);
+
+  const finish = (allAnswers: number[]) => {
+    const completedAt = Date.now();
+    let offset = 0;
+    const results = sessions.map(session => {
+      const questions = session.quizQuestions!;
+      const sessionAnswers = allAnswers.slice(offset, offset + questions.length);
+      offset += questions.length;
+      const details = buildQuizDetails(questions, sessionAnswers);
+      return {
+        originalSessionId: session.sessionId,
+        topic: session.config?.topic || 'Unknown',
+        combinationId: session.config?.combinationId,
+        delayMs: completedAt - session.startTime,
+        answers: sessionAnswers,
+        details,
+        retentionScore: details.filter(d => d.isCorrect).length,
+        accuracyByLevel: accuracyByLevel(details),
+        immediateScore: session.quizScore,
+        totalQuestions: questions.length
+      };
+    });
+    onComplete(results);
+  };
+
+  const handleAnswer = (optionIndex: number) => {
+    const newAnswers = [...answers, optionIndex];
+    setAnswers(newAnswers);
+    if (index < items.length - 1) {
+      setIndex(prev => prev + 1);
+    } else {
+      finish(newAnswers);
+    }
+  };
+
+  const handlePrevious = () => {
+    if (index === 0) return;
+    setAnswers(prev => prev.slice(0, -1));
+    setIndex(prev => prev - 1);
+  };
+
+  const { session, question } = items[index];
+  return (
+    <QuizCard
+      key={index}
+      title={`Recall: ${session.config?.topic || 'Lesson'}`}
+      question={question}
+      index={index}
+      total={items.length}
+      onAnswer={handleAnswer}
+      onSkip={() => handleAnswer(-1)}
+      onPrevious={handlePrevious}
+    />
+  );
+};
+
+export default RetentionTest;
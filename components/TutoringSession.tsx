@@ -1,22 +1,39 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { TutoringConfig, TutoringComplexity, TutoringPacing, TutoringSessionData, NasaTlxResult, QuizQuestion, SessionMode } from '../types';
-import { generateTutoringScript, generateTutoringAudio, generateQuiz, answerLearnerQuestion } from '../services/geminiService';
-import { AudioPlayer } from '../utils/audio';
-import { logger } from '../utils/eventLogger';
-import NasaTlxForm from './NasaTlxForm';
+import { TutoringConfig, ParticipantInfo, TutoringComplexity, TutoringPacing, TutoringSessionData, NasaTlxResult, QuizQuestion, SessionMode, AdaptationDecisionAction, AdaptationTrigger } from '../types';
+import { generateTutoringScript, generateLessonAudio, generateQuiz, generatePreTest, answerLearnerQuestion } from '../services/geminiService';
+import { AudioPlayer, SegmentedAudioPlayer, SegmentInfo, SegmentEventType } from '../utils/audio';
+import { logger, normalizedGain } from '../utils/eventLogger';
+import { useWorkloadSignal, workloadSignal } from '../utils/workloadSignal';
+import { AdaptationEngine, YokedReplay, findYokedSchedule } from '../utils/adaptationPolicy';
+import { behaviourTelemetry } from '../utils/behaviourTelemetry';
+import { extractAcousticFeatures } from '../utils/acousticFeatures';
+import { findLessonContent, stampContent } from '../utils/contentPacks';
+import { isOfflineMode, answerOffline } from '../utils/offlineMode';
+import { getAnswerPolicy, splitLessonAt } from '../utils/answerPolicy';
+import QuestionnaireSequence from './QuestionnaireSequence';
+import QuizCard from './QuizCard';
+import { NASA_TLX_ID } from '../utils/questionnaires';
 import AudioVisualizer from './AudioVisualizer';
 import AICharacter from './AICharacter';
+import LessonCaptions from './LessonCaptions';
 
 interface TutoringSessionProps {
   config: TutoringConfig;
+  participant: ParticipantInfo;
+  includeTlxWeighting?: boolean;
+  questionnaires?: string[]; // Instrument IDs shown in order after the quiz
+  includePreTest?: boolean; // Knowledge pre-test before the lesson plays
+  resumeFromSentence?: boolean; // After an interruption, replay the interrupted sentence from its start
   onSessionComplete: (data: any) => void;
   onModeChange: (mode: SessionMode) => void;
 }
 
 enum SessionState {
   LOADING,
+  PRETEST, // Prior-knowledge items, before the lesson
   PLAYING,
+  PAUSED, // Adaptive pause or question prompt
   LISTENING, // Interrupted, recording user
   PROCESSING, // Processing audio/getting answer
   ANSWERING, // AI responding to interruption
@@ -26,12 +43,14 @@ enum SessionState {
   ERROR
 }
 
-const TutoringSession: React.FC<TutoringSessionProps> = ({ config, onSessionComplete, onModeChange }) => {
+const TutoringSession: React.FC<TutoringSessionProps> = ({ config, participant, includeTlxWeighting = false, questionnaires = [NASA_TLX_ID], includePreTest = false, resumeFromSentence = false, onSessionComplete, onModeChange }) => {
   const [state, setState] = useState<SessionState>(SessionState.LOADING);
   const [sessionData, setSessionData] = useState<TutoringSessionData | null>(null);
   const [currentQuizIndex, setCurrentQuizIndex] = useState(0);
   const [quizScore, setQuizScore] = useState(0);
   const [quizAnswers, setQuizAnswers] = useState<number[]>([]);
+  const [preTestIndex, setPreTestIndex] = useState(0);
+  const [preTestAnswers, setPreTestAnswers] = useState<number[]>([]);
   const [loadingStep, setLoadingStep] = useState<string>("Initializing...");
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   
@@ -42,19 +61,34 @@ const TutoringSession: React.FC<TutoringSessionProps> = ({ config, onSessionComp
   const [isRecording, setIsRecording] = useState(false);
   const [answerText, setAnswerText] = useState<string>("");
 
-  const audioPlayerRef = useRef<AudioPlayer | null>(null); // Main Lesson Player
+  // Live workload estimate (null until the classifier sends a sample)
+  const workload = useWorkloadSignal();
+
+  // Adaptation State
+  const [pausePrompt, setPausePrompt] = useState<'pause' | 'question_prompt' | null>(null);
+  const [, setPlayerVersion] = useState(0); // Bumped when the lesson player is swapped
+  const stateRef = useRef<SessionState>(SessionState.LOADING);
+  const pauseTimerRef = useRef<number | null>(null);
+  const answerTimerRef = useRef<number | null>(null); // Text-only interruption replies
+  const basePlaybackRateRef = useRef(1.0);
+  const complexityRef = useRef<TutoringComplexity>(config.complexity); // SIMPLE once the script is simplified
+
+  const audioPlayerRef = useRef<SegmentedAudioPlayer | null>(null); // Main Lesson Player
+  const interruptedSegmentRef = useRef<SegmentInfo | null>(null);
   const answerPlayerRef = useRef<AudioPlayer | null>(null); // Interruption Answer Player
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
+  const interruptPressedAtRef = useRef(0); // performance.now() at the interrupt press
+  const recorderStartedAtRef = useRef<number | null>(null);
 
   // Update App Mode based on local State
   useEffect(() => {
     let mode: SessionMode = 'default';
-    if (state === SessionState.PLAYING) {
+    if (state === SessionState.PLAYING || state === SessionState.PAUSED) {
         mode = 'explanation';
     } else if (state === SessionState.LISTENING || state === SessionState.PROCESSING || state === SessionState.ANSWERING) {
         mode = 'interruption';
-    } else if (state === SessionState.QUIZ) {
+    } else if (state === SessionState.QUIZ || state === SessionState.PRETEST) {
         mode = 'quiz';
     } else if (state === SessionState.LOADING) {
         mode = 'default'; // Keep default background during loading
@@ -74,15 +108,18 @@ const TutoringSession: React.FC<TutoringSessionProps> = ({ config, onSessionComp
     : (isLightMode ? 'bg-emerald-500/10 border-emerald-500/50 text-emerald-700' : 'bg-emerald-500/10 border-emerald-500/50 text-emerald-300');
 
 
-  // Timer Logic
+  // Timer Logic: counts playing time from performance.now(), so throttled ticks lose nothing
+  const playedMsRef = useRef(0);
   useEffect(() => {
-    let interval: number;
-    if (state === SessionState.PLAYING) {
-      interval = window.setInterval(() => {
-        setElapsedTime(prev => prev + 1);
-      }, 1000);
-    }
-    return () => clearInterval(interval);
+    if (state !== SessionState.PLAYING) return;
+    const segmentStart = performance.now();
+    const interval = window.setInterval(() => {
+      setElapsedTime(Math.floor((playedMsRef.current + performance.now() - segmentStart) / 1000));
+    }, 250);
+    return () => {
+      clearInterval(interval);
+      playedMsRef.current += performance.now() - segmentStart;
+    };
   }, [state]);
 
   // Format Time (MM:SS)
@@ -92,6 +129,13 @@ const TutoringSession: React.FC<TutoringSessionProps> = ({ config, onSessionComp
     return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
   };
 
+  // Behavioural telemetry runs only while the lesson audio plays
+  useEffect(() => {
+    if (state !== SessionState.PLAYING) return;
+    behaviourTelemetry.start();
+    return () => behaviourTelemetry.stop();
+  }, [state]);
+
   // Determine Character State
   const getCharacterState = (): 'idle' | 'speaking' | 'listening' | 'thinking' => {
     switch (state) {
@@ -108,6 +152,11 @@ const TutoringSession: React.FC<TutoringSessionProps> = ({ config, onSessionComp
     }
   };
 
+  // Segment boundaries are logged (and sent as markers) as they are played
+  const logSegment = (type: SegmentEventType, segment: SegmentInfo) => {
+    logger.log(type === 'start' ? 'segment_start' : 'segment_end', { segmentIndex: segment.index, segmentStartMs: segment.startMs });
+  };
+
   // Initialize Session
   useEffect(() => {
     const init = async () => {
@@ -116,8 +165,7 @@ const TutoringSession: React.FC<TutoringSessionProps> = ({ config, onSessionComp
         setErrorMessage(null);
         
         // Start Event Logging
-        const participantId = `p-${Math.floor(Math.random() * 10000).toString().padStart(4, '0')}`;
-        logger.startSession(participantId);
+        logger.startSession(participant, config.isPractice ? 'practice' : 'tutoring');
 
         // Step 1: Generate Script
         setLoadingStep("Drafting Lesson Plan...");
@@ -127,32 +175,40 @@ const TutoringSession: React.FC<TutoringSessionProps> = ({ config, onSessionComp
         setLoadingStep("Synthesizing Voice & Preparing Assessment...");
         
         // We trigger both but with a small stagger to avoid hitting the API rate limit/concurrency issues exactly simultaneously
-        const audioPromise = generateTutoringAudio(script);
+        const audioPromise = generateLessonAudio(script);
         
         // Wait 500ms before starting quiz generation to spread the load
         await new Promise(r => setTimeout(r, 500));
         
         const quizPromise = generateQuiz(script);
+        
+        // The pre-test is built from the quiz so its items can be kept disjoint
+        const preTestPromise = includePreTest
+          ? quizPromise.then(quiz => generatePreTest(script, quiz))
+          : Promise.resolve(undefined);
 
-        const [audioBase64, quiz] = await Promise.all([
+        const [segments, quiz, preTest] = await Promise.all([
           audioPromise,
-          quizPromise
+          quizPromise,
+          preTestPromise
         ]);
         
         // --- LOGGING UPDATE: Save context ---
-        logger.setSessionContext(config, script, quiz);
+        const lesson = findLessonContent(config.topic, config.complexity, config.pacing);
+        logger.setSessionContext(config, script, quiz, preTest, lesson ? stampContent(lesson, quiz, preTest) : undefined);
 
-        setSessionData({ script, audioBase64, quiz });
+        setSessionData({ script, segments, quiz, preTest });
 
         // Decrease playback rate to slow down speed as requested
         // Normal = 0.9x, Fast = 1.15x
         const playbackRate = config.pacing === TutoringPacing.FAST ? 1.15 : 0.9;
+        basePlaybackRateRef.current = playbackRate;
         
-        audioPlayerRef.current = new AudioPlayer(playbackRate);
-        await audioPlayerRef.current.loadAudio(audioBase64);
+        audioPlayerRef.current = new SegmentedAudioPlayer(playbackRate, logSegment);
+        await audioPlayerRef.current.loadSegments(segments);
 
         setLoadingStep("Ready");
-        setState(SessionState.PLAYING);
+        setState(preTest ? SessionState.PRETEST : SessionState.PLAYING);
       } catch (error: any) {
         console.error("Initialization failed", error);
         setErrorMessage(error.message || "Failed to initialize session. Please try again.");
@@ -165,6 +221,8 @@ const TutoringSession: React.FC<TutoringSessionProps> = ({ config, onSessionComp
     return () => {
       audioPlayerRef.current?.stop();
       answerPlayerRef.current?.stop();
+      if (pauseTimerRef.current !== null) clearTimeout(pauseTimerRef.current);
+      if (answerTimerRef.current !== null) clearTimeout(answerTimerRef.current);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
@@ -175,33 +233,192 @@ const TutoringSession: React.FC<TutoringSessionProps> = ({ config, onSessionComp
       // If we are coming back from interruption, resume. If start, play.
       const timeout = setTimeout(() => {
         // Determine if it is a resume (pausedAt > 0) or start
-        const isResume = audioPlayerRef.current!.getCurrentTime() > 0.1;
+        const player = audioPlayerRef.current!;
+        const isResume = player.getCurrentTime() > 0.1;
+
+        // Pack audio is a single segment, where rewinding would restart the lesson
+        const interrupted = interruptedSegmentRef.current;
+        interruptedSegmentRef.current = null;
+        const rewind = isResume && resumeFromSentence && !!interrupted && player.getSegments().length > 1;
+        if (rewind) player.seek(interrupted!.startMs / 1000);
         
-        audioPlayerRef.current?.play(() => {
+        player.play(() => {
             setState(SessionState.QUIZ);
         });
 
         if (isResume) {
-          logger.log('audio_resume');
+          logger.log('audio_resume', rewind ? { fromSegmentStart: interrupted!.index } : {});
         } else {
           logger.log('audio_start', { 
             topic: config.topic,
-            duration: audioPlayerRef.current?.getDuration() 
+            duration: player.getDuration(),
+            segments: player.getSegments(),
+            captions: config.captions ?? 'none'
           });
         }
       }, 100);
       return () => clearTimeout(timeout);
     }
-  }, [state, config.topic]);
+  }, [state, config.topic, resumeFromSentence]);
+
+  // --- Adaptation Logic ---
+
+  useEffect(() => {
+    stateRef.current = state;
+  }, [state]);
+
+  // Only uses refs and setters, so it is safe to call from long-lived subscriptions
+  const applyAdaptation = (action: AdaptationDecisionAction, trigger: AdaptationTrigger) => {
+    const player = audioPlayerRef.current;
+    const policy = config.adaptation;
+    if (!player || !policy) return;
+    logger.recordAdaptation(action, trigger, player.getCurrentTime() * 1000);
+
+    switch (action) {
+      case 'slow_down':
+        player.setPlaybackRate(basePlaybackRateRef.current * policy.slowdownFactor);
+        break;
+      case 'restore_pace':
+        player.setPlaybackRate(basePlaybackRateRef.current);
+        break;
+      case 'recap':
+        player.seek(player.getCurrentTime() - policy.recapMs / 1000);
+        break;
+      case 'pause':
+        player.pause();
+        setPausePrompt('pause');
+        setState(SessionState.PAUSED);
+        pauseTimerRef.current = window.setTimeout(() => {
+          pauseTimerRef.current = null;
+          if (stateRef.current === SessionState.PAUSED) resumeFromPause();
+        }, policy.pauseDurationMs);
+        break;
+      case 'question_prompt':
+        player.pause();
+        setPausePrompt('question_prompt');
+        setState(SessionState.PAUSED);
+        break;
+      case 'simplify':
+        switchToSimpleScript().catch(e => {
+          console.error("Failed to simplify lesson", e);
+          logger.log('adaptation_failed', { action, error: e.message });
+        });
+        break;
+    }
+  };
+
+  // Swaps in the SIMPLE variant of the script, continuing from the same relative position
+  const switchToSimpleScript = async () => {
+    const script = await generateTutoringScript(config.topic, TutoringComplexity.SIMPLE, config.pacing);
+    const segments = await generateLessonAudio(script);
+    const oldPlayer = audioPlayerRef.current!;
+    const newPlayer = new SegmentedAudioPlayer(oldPlayer.getPlaybackRate(), logSegment);
+    await newPlayer.loadSegments(segments);
+
+    // The lesson may have ended while the new audio was generated
+    const current = stateRef.current;
+    if (current !== SessionState.PLAYING && current !== SessionState.PAUSED && current !== SessionState.LISTENING &&
+        current !== SessionState.PROCESSING && current !== SessionState.ANSWERING) return;
+
+    const fraction = oldPlayer.getCurrentTime() / oldPlayer.getDuration();
+    oldPlayer.stop();
+    newPlayer.seek(fraction * newPlayer.getDuration());
+    audioPlayerRef.current = newPlayer;
+    complexityRef.current = TutoringComplexity.SIMPLE;
+    interruptedSegmentRef.current = null; // Its sentence is not in the new script
+    if (current === SessionState.PLAYING) {
+      newPlayer.play(() => setState(SessionState.QUIZ));
+    }
+    logger.log('script_simplified', { fromProgressFraction: fraction, segments: newPlayer.getSegments() });
+    setPlayerVersion(v => v + 1);
+  };
+
+  const resumeFromPause = () => {
+    if (pauseTimerRef.current !== null) {
+      clearTimeout(pauseTimerRef.current);
+      pauseTimerRef.current = null;
+    }
+    setPausePrompt(null);
+    setState(SessionState.PLAYING);
+  };
+
+  const declineQuestionPrompt = () => {
+    logger.log('question_prompt_response', { accepted: false });
+    resumeFromPause();
+  };
+
+  const acceptQuestionPrompt = () => {
+    logger.log('question_prompt_response', { accepted: true });
+    setPausePrompt(null);
+    startInterruption();
+  };
+
+  // Adaptive mode: every sample is evaluated while the lesson is playing. One
+  // engine per lesson, so its hysteresis and dwell state survive re-renders.
+  const adaptationEngineRef = useRef<AdaptationEngine | null>(null);
+  useEffect(() => {
+    if (config.adaptation?.mode !== 'adaptive') return;
+    if (!adaptationEngineRef.current) adaptationEngineRef.current = new AdaptationEngine(config.adaptation);
+    const engine = adaptationEngineRef.current;
+    return workloadSignal.subscribe(sample => {
+      if (stateRef.current !== SessionState.PLAYING) return;
+      const decision = engine.evaluate(sample.value, sample.receivedAt);
+      if (decision) applyAdaptation(decision.action, decision.trigger);
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [config.adaptation?.mode]);
+
+  // Yoked mode: another participant's decisions are replayed at the same lesson positions
+  const yokedReplayRef = useRef<YokedReplay | null>(null);
+  const yokedLoadStartedRef = useRef(false);
+  useEffect(() => {
+    if (config.adaptation?.mode !== 'yoked' || yokedLoadStartedRef.current) return;
+    yokedLoadStartedRef.current = true;
+    findYokedSchedule(participant.participantId, config.combinationId, config.adaptation.yokedParticipantId)
+      .then(schedule => {
+        if (!schedule) {
+          logger.log('adaptation_yoke_missing', { combinationId: config.combinationId });
+          return;
+        }
+        yokedReplayRef.current = new YokedReplay(schedule);
+        logger.log('adaptation_yoked', {
+          sourceSessionId: schedule.sourceSessionId,
+          sourceParticipantId: schedule.sourceParticipantId,
+          decisions: schedule.decisions.length
+        });
+      })
+      .catch(e => console.error("Failed to load yoked schedule", e));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [config.adaptation?.mode, config.combinationId, config.adaptation?.yokedParticipantId, participant.participantId]);
+
+  useEffect(() => {
+    if (state !== SessionState.PLAYING || config.adaptation?.mode !== 'yoked') return;
+    const interval = window.setInterval(() => {
+      if (!yokedReplayRef.current || !audioPlayerRef.current || stateRef.current !== SessionState.PLAYING) return;
+      const progressMs = audioPlayerRef.current.getCurrentTime() * 1000;
+      yokedReplayRef.current.due(progressMs).forEach(d => applyAdaptation(d.action, d.trigger));
+    }, 250);
+    return () => clearInterval(interval);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [state, config.adaptation?.mode]);
 
   // --- Interruption Logic ---
 
   const startInterruption = async () => {
-    if (!audioPlayerRef.current || state !== SessionState.PLAYING) return;
+    if (!audioPlayerRef.current || (state !== SessionState.PLAYING && state !== SessionState.PAUSED)) return;
     
     // Pause lesson
+    interruptPressedAtRef.current = performance.now();
+    recorderStartedAtRef.current = null;
     const currentTime = audioPlayerRef.current.getCurrentTime();
-    logger.log('user_interrupt', { progressMs: currentTime * 1000 });
+    const segment = audioPlayerRef.current.getCurrentSegment();
+    interruptedSegmentRef.current = segment;
+    logger.log('user_interrupt', {
+      progressMs: currentTime * 1000,
+      segmentIndex: segment?.index ?? null,
+      segmentOffsetMs: segment ? currentTime * 1000 - segment.startMs : null,
+      workload: workload?.value ?? null
+    });
 
     audioPlayerRef.current.pause();
     setState(SessionState.LISTENING);
@@ -218,6 +435,10 @@ const TutoringSession: React.FC<TutoringSessionProps> = ({ config, onSessionComp
         audioChunksRef.current.push(event.data);
       };
 
+      mediaRecorder.onstart = () => {
+        recorderStartedAtRef.current = performance.now();
+      };
+
       mediaRecorder.onstop = async () => {
         const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
         await processInterruption(audioBlob);
@@ -241,30 +462,62 @@ const TutoringSession: React.FC<TutoringSessionProps> = ({ config, onSessionComp
   };
 
   const processInterruption = async (audioBlob: Blob) => {
+    // Acoustic features are computed locally, alongside the API call
+    const recorderStartDelayMs = recorderStartedAtRef.current !== null
+      ? recorderStartedAtRef.current - interruptPressedAtRef.current
+      : undefined;
+    const acousticsPromise = extractAcousticFeatures(audioBlob, recorderStartDelayMs).catch(e => {
+      console.error("Failed to extract acoustic features", e);
+      return null;
+    });
+
+    // Offline: no transcription or API; the reply comes from the bundle or the script
+    if (isOfflineMode()) {
+      try {
+        if (!sessionData || !audioPlayerRef.current) return;
+        const player = audioPlayerRef.current;
+        // The text the player holds, which a simplify adaptation may have replaced
+        const playingText = player.getSegments().map(segment => segment.text).join(' ');
+        const answer = answerOffline(playingText, player.getCurrentTime() / player.getDuration());
+        logger.logConversation('', answer.text, await acousticsPromise, answer.source, player.getCurrentTime() * 1000);
+        await presentAnswer(answer.text, answer.audioData);
+      } catch (e) {
+        console.error("Failed to answer offline", e);
+        setState(SessionState.PLAYING);
+      }
+      return;
+    }
+
     const reader = new FileReader();
     reader.readAsDataURL(audioBlob);
     reader.onloadend = async () => {
       const base64String = (reader.result as string).split(',')[1];
       
       try {
-        if (!sessionData) return;
+        const player = audioPlayerRef.current;
+        if (!sessionData || !player) return;
+
+        // The answer sees what has been heard so far (from the current player, which
+        // may hold the simplified script) and the lesson's earlier questions
+        const progressMs = player.getCurrentTime() * 1000;
+        const { historyTurns } = getAnswerPolicy();
+        const history = historyTurns > 0
+          ? logger.getConversationHistory().filter(t => t.userQuestion).slice(-historyTurns).map(t => ({ question: t.userQuestion, answer: t.aiAnswer }))
+          : [];
         
         // Now returns userTranscript and aiAnswer
-        const result = await answerLearnerQuestion(sessionData.script, base64String);
+        const result = await answerLearnerQuestion({
+          topic: config.topic,
+          complexity: complexityRef.current,
+          progressMs,
+          ...splitLessonAt(player.getSegments(), progressMs),
+          history
+        }, base64String);
         
         // --- LOGGING UPDATE: Record conversation ---
-        logger.logConversation(result.userTranscript, result.aiAnswer);
+        logger.logConversation(result.userTranscript, result.aiAnswer, await acousticsPromise, 'api', progressMs);
 
-        setAnswerText(result.aiAnswer);
-        setState(SessionState.ANSWERING);
-
-        answerPlayerRef.current = new AudioPlayer(1.0);
-        await answerPlayerRef.current.loadAudio(result.audioData);
-        
-        answerPlayerRef.current.play(() => {
-          setState(SessionState.PLAYING);
-          setAnswerText("");
-        });
+        await presentAnswer(result.aiAnswer, result.audioData);
 
       } catch (e) {
         console.error("Failed to answer", e);
@@ -274,6 +527,53 @@ const TutoringSession: React.FC<TutoringSessionProps> = ({ config, onSessionComp
     };
   };
 
+  // Shows the reply, plays it if there is audio, then resumes the lesson
+  const presentAnswer = async (text: string, audioData?: string) => {
+    const finish = () => {
+      setState(SessionState.PLAYING);
+      setAnswerText("");
+    };
+    setAnswerText(text);
+
+    if (!audioData) {
+      // Text-only replies stay up long enough to be read
+      answerPlayerRef.current = null;
+      setState(SessionState.ANSWERING);
+      answerTimerRef.current = window.setTimeout(finish, Math.min(12000, Math.max(3000, text.length * 60)));
+      return;
+    }
+
+    setState(SessionState.ANSWERING);
+    answerPlayerRef.current = new AudioPlayer(1.0);
+    await answerPlayerRef.current.loadAudio(audioData);
+    answerPlayerRef.current.play(finish);
+  };
+
+  // --- Pre-test Logic ---
+
+  const handlePreTestAnswer = (optionIndex: number) => {
+    if (!sessionData?.preTest) return;
+    
+    // -1 denotes "I don't know"
+    logger.log('pretest_answer', { questionIndex: preTestIndex, optionIndex });
+    const newAnswers = [...preTestAnswers, optionIndex];
+    setPreTestAnswers(newAnswers);
+
+    if (preTestIndex < sessionData.preTest.length - 1) {
+      setPreTestIndex(prev => prev + 1);
+    } else {
+      logger.setPreTestResults(newAnswers);
+      logger.log('pretest_end', { answers: newAnswers });
+      setState(SessionState.PLAYING);
+    }
+  };
+
+  const handlePreTestPrevious = () => {
+    if (preTestIndex === 0) return;
+    setPreTestAnswers(prev => prev.slice(0, -1));
+    setPreTestIndex(prev => prev - 1);
+  };
+
   // --- Quiz Logic ---
 
   const handleQuizAnswer = (optionIndex: number) => {
@@ -281,6 +581,7 @@ const TutoringSession: React.FC<TutoringSessionProps> = ({ config, onSessionComp
     
     const isCorrect = optionIndex === sessionData.quiz[currentQuizIndex].correctIndex;
     if (isCorrect) setQuizScore(s => s + 1);
+    logger.log('quiz_answer', { questionIndex: currentQuizIndex, optionIndex, isCorrect });
     
     const newAnswers = [...quizAnswers, optionIndex];
     setQuizAnswers(newAnswers);
@@ -291,6 +592,25 @@ const TutoringSession: React.FC<TutoringSessionProps> = ({ config, onSessionComp
       logger.log('session_end', { quizScore: quizScore + (isCorrect ? 1 : 0) });
       // Store preliminary results (without TLX yet)
       logger.setResults(quizScore + (isCorrect ? 1 : 0), newAnswers);
+      finishQuiz(quizScore + (isCorrect ? 1 : 0));
+    }
+  };
+
+  // Pre-test score and learning gain for the results table (also in quizStats)
+  const learningSummary = (finalScore: number) => {
+    if (!sessionData?.preTest) return {};
+    const preTestScore = sessionData.preTest.filter((q, i) => preTestAnswers[i] === q.correctIndex).length;
+    return {
+      preTestScore,
+      normalizedGain: normalizedGain(preTestScore / sessionData.preTest.length, finalScore / sessionData.quiz.length)
+    };
+  };
+
+  // Questionnaires follow the quiz unless none are configured (e.g. practice lessons)
+  const finishQuiz = (finalScore: number) => {
+    if (questionnaires.length === 0) {
+      onSessionComplete({ config, quizScore: finalScore, ...learningSummary(finalScore) });
+    } else {
       setState(SessionState.RATING);
     }
   };
@@ -299,6 +619,7 @@ const TutoringSession: React.FC<TutoringSessionProps> = ({ config, onSessionComp
     if (!sessionData) return;
     
     // -1 denotes a skip
+    logger.log('quiz_answer', { questionIndex: currentQuizIndex, optionIndex: -1, isCorrect: false });
     const newAnswers = [...quizAnswers, -1];
     setQuizAnswers(newAnswers);
 
@@ -308,7 +629,7 @@ const TutoringSession: React.FC<TutoringSessionProps> = ({ config, onSessionComp
       logger.log('session_end', { quizScore: quizScore });
       // Store preliminary results
       logger.setResults(quizScore, newAnswers);
-      setState(SessionState.RATING);
+      finishQuiz(quizScore);
     }
   };
   
@@ -336,11 +657,15 @@ const TutoringSession: React.FC<TutoringSessionProps> = ({ config, onSessionComp
   const handleRatingSubmit = (rating: NasaTlxResult) => {
     // Update logger with final rating
     logger.setResults(quizScore, quizAnswers, rating);
-    
+  };
+
+  const handleQuestionnairesComplete = (rating: NasaTlxResult | undefined, questionnaireScores: Record<string, number | undefined>) => {
     onSessionComplete({
       config,
       quizScore,
-      rating
+      ...learningSummary(quizScore),
+      rating,
+      questionnaireScores
     });
   };
 
@@ -383,7 +708,7 @@ const TutoringSession: React.FC<TutoringSessionProps> = ({ config, onSessionComp
   }
 
   // Active Session View
-  if (state === SessionState.PLAYING || state === SessionState.LISTENING || state === SessionState.ANSWERING || state === SessionState.PROCESSING) {
+  if (state === SessionState.PLAYING || state === SessionState.PAUSED || state === SessionState.LISTENING || state === SessionState.ANSWERING || state === SessionState.PROCESSING) {
     return (
       <div className="relative flex flex-col items-center justify-center h-full max-w-2xl mx-auto text-center px-4 w-full">
         
@@ -441,6 +766,10 @@ const TutoringSession: React.FC<TutoringSessionProps> = ({ config, onSessionComp
                  <p className={`text-lg ${isLightMode ? 'text-rose-600' : 'text-rose-300'}`}>Listening to your question...</p>
             ) : state === SessionState.PROCESSING ? (
                  <p className={`text-lg ${isLightMode ? 'text-indigo-600' : 'text-indigo-300'}`}>Processing your query...</p>
+            ) : state === SessionState.PAUSED ? (
+                 <p className={`text-lg ${accentTextColor}`}>
+                    {pausePrompt === 'question_prompt' ? 'Is anything unclear so far? You can ask a question now.' : 'Take a short moment before we continue.'}
+                 </p>
             ) : (
                  <div className="flex flex-col items-center gap-1">
                      <p className={`text-lg ${subTextColor}`}>Listen carefully to the explanation.</p>
@@ -448,6 +777,13 @@ const TutoringSession: React.FC<TutoringSessionProps> = ({ config, onSessionComp
             )}
         </div>
 
+        {/* Captions (per condition) */}
+        {(state === SessionState.PLAYING || state === SessionState.PAUSED) && config.captions && (
+            <div className="mt-6 w-full">
+                <LessonCaptions player={audioPlayerRef.current} mode={config.captions} isActive={state === SessionState.PLAYING} />
+            </div>
+        )}
+
         {/* Interaction Controls */}
         <div className="mt-12">
             {state === SessionState.PLAYING && (
@@ -460,6 +796,23 @@ const TutoringSession: React.FC<TutoringSessionProps> = ({ config, onSessionComp
                 </button>
             )}
 
+            {state === SessionState.PAUSED && pausePrompt === 'question_prompt' && (
+                <div className="flex gap-4">
+                    <button
+                        onClick={acceptQuestionPrompt}
+                        className="px-8 py-4 bg-blue-600 hover:bg-blue-500 text-white rounded-full font-bold transition-all shadow-lg"
+                    >
+                        Ask a Question
+                    </button>
+                    <button
+                        onClick={declineQuestionPrompt}
+                        className="px-8 py-4 bg-slate-800 hover:bg-slate-700 border border-slate-600 text-white rounded-full font-bold transition-all"
+                    >
+                        Continue Lesson
+                    </button>
+                </div>
+            )}
+
             {state === SessionState.LISTENING && (
                 <button 
                     onClick={stopInterruption}
@@ -474,69 +827,47 @@ const TutoringSession: React.FC<TutoringSessionProps> = ({ config, onSessionComp
     );
   }
 
-  if (state === SessionState.QUIZ && sessionData) {
-    const question = sessionData.quiz[currentQuizIndex];
+  if (state === SessionState.PRETEST && sessionData?.preTest) {
     return (
-      <div className="max-w-2xl w-full mx-auto p-4">
-        <div className="bg-slate-800/80 backdrop-blur p-8 rounded-3xl shadow-2xl border border-slate-700/50">
-            <div className="flex justify-between items-center mb-8 border-b border-slate-700 pb-4">
-                <h3 className="text-xl font-bold text-white flex items-center gap-2">
-                    <span className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center text-sm">?</span>
-                    Comprehension Check
-                </h3>
-                <span className="text-sm font-mono text-slate-400 bg-slate-900 px-3 py-1 rounded-full">
-                    {currentQuizIndex + 1} / {sessionData.quiz.length}
-                </span>
-            </div>
-            
-            <p className="text-xl text-slate-100 mb-8 font-medium leading-relaxed">{question.question}</p>
-            
-            <div className="space-y-4">
-            {question.options.map((option, idx) => (
-                <button
-                key={idx}
-                onClick={() => handleQuizAnswer(idx)}
-                className="w-full text-left p-5 rounded-xl bg-slate-700/50 hover:bg-blue-600 hover:shadow-lg hover:shadow-blue-900/20 text-slate-200 transition-all border border-transparent hover:border-blue-400 group flex items-center"
-                >
-                <span className="w-8 h-8 rounded-full border border-slate-500 group-hover:border-white mr-4 flex items-center justify-center text-sm text-slate-400 group-hover:text-white transition-colors">
-                    {String.fromCharCode(65 + idx)}
-                </span>
-                {option}
-                </button>
-            ))}
-            </div>
-
-            <div className="mt-8 flex justify-between items-center">
-                <button 
-                    onClick={handlePreviousQuestion}
-                    disabled={currentQuizIndex === 0}
-                    className={`px-4 py-2 flex items-center gap-1 font-medium text-sm transition-colors ${
-                        currentQuizIndex === 0 
-                        ? 'text-slate-600 cursor-not-allowed' 
-                        : 'text-slate-500 hover:text-slate-300 group'
-                    }`}
-                >
-                    <svg className={`w-4 h-4 ${currentQuizIndex !== 0 && 'group-hover:-translate-x-1'} transition-transform`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M11 17l-5-5m0 0l5-5m-5 5h12"></path></svg>
-                    Previous
-                </button>
+      <QuizCard
+        key="pretest"
+        title="Before We Begin"
+        question={sessionData.preTest[preTestIndex]}
+        index={preTestIndex}
+        total={sessionData.preTest.length}
+        onAnswer={handlePreTestAnswer}
+        onSkip={() => handlePreTestAnswer(-1)}
+        onPrevious={handlePreTestPrevious}
+        skipLabel="I don't know"
+      />
+    );
+  }
 
-                <button 
-                  onClick={handleSkip}
-                  className="px-4 py-2 text-slate-500 hover:text-slate-300 transition-colors flex items-center gap-1 font-medium text-sm group"
-                >
-                  Skip Question
-                  <svg className="w-4 h-4 group-hover:translate-x-1 transition-transform" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 7l5 5m0 0l-5 5m5-5H6"></path></svg>
-                </button>
-            </div>
-        </div>
-      </div>
+  if (state === SessionState.QUIZ && sessionData) {
+    return (
+      <QuizCard
+        key="quiz"
+        title="Comprehension Check"
+        question={sessionData.quiz[currentQuizIndex]}
+        index={currentQuizIndex}
+        total={sessionData.quiz.length}
+        onAnswer={handleQuizAnswer}
+        onSkip={handleSkip}
+        onPrevious={handlePreviousQuestion}
+      />
     );
   }
 
   if (state === SessionState.RATING) {
     return (
         <div className="flex items-center justify-center h-full w-full">
-            <NasaTlxForm onSubmit={handleRatingSubmit} />
+            <QuestionnaireSequence
+                questionnaires={questionnaires}
+                includeTlxWeighting={includeTlxWeighting}
+                onNasaTlx={handleRatingSubmit}
+                onResponse={(response) => logger.setQuestionnaireResponse(response)}
+                onComplete={handleQuestionnairesComplete}
+            />
         </div>
     );
   }
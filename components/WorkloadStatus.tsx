@@ -0,0 +1,26 @@
+import React, { useState, useEffect } from 'react';
+import { workloadSignal, useWorkloadSignal, WorkloadSignalStatus } from '../utils/workloadSignal';
+
+const STATUS_DOTS: Record<Exclude<WorkloadSignalStatus, 'disabled'>, string> = {
+  connecting: 'bg-amber-400 animate-pulse',
+  connected: 'bg-emerald-400',
+  disconnected: 'bg-rose-500'
+};
+
+// Corner badge for the experimenter showing the latest workload estimate
+const WorkloadStatus: React.FC = () => {
+  const [status, setStatus] = useState<WorkloadSignalStatus>(workloadSignal.getStatus());
+  const sample = useWorkloadSignal();
+
+  useEffect(() => workloadSignal.subscribeStatus(setStatus), []);
+
+  if (status === 'disabled') return null;
+  return (
+    <div className="fixed bottom-3 left-3 z-50 flex items-center gap-2 px-3 py-1.5 rounded-full bg-slate-900/80 border border-slate-700 text-xs text-slate-300">
+      <span className={`w-2 h-2 rounded-full ${STATUS_DOTS[status]}`}></span>
+      <span>Workload: {sample ? sample.value.toFixed(2) : '–'}</span>
+    </div>
+  );
+};
+
+export default WorkloadStatus;
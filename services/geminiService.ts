@@ -1,67 +1,76 @@
 
-import { GoogleGenAI, Modality, Type } from "@google/genai";
-import { TutoringComplexity, TutoringPacing, QuizQuestion } from "../types";
-
-// Initialize Gemini Client
-const getClient = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API_KEY environment variable is missing.");
+import { TutoringComplexity, TutoringPacing, QuizQuestion, LessonSegmentAudio } from "../types";
+import { findLessonContent, findLessonContentByScript, findFallbackQuiz, loadPackedAudio, cellName } from "../utils/contentPacks";
+import { quizzesOverlap, validateQuiz, QuizValidationAttempt, QuizValidationOptions } from "../utils/quizItems";
+import { isOfflineMode } from "../utils/offlineMode";
+import { getProvider, GenerationProvider, AnswerContext } from "./generationProvider";
+import { scriptPrompt, quizPrompt, preTestPrompt, answerPrompt, BACKGROUND_PROMPT, PROMPT_VERSIONS } from "./prompts";
+import { getCachedGeneration, putCachedGeneration, setCacheEntryPinned, GenerationCacheKind } from "../utils/generationCache";
+import { logger, QuizValidationRecord } from "../utils/eventLogger";
+import { splitSentences } from "../utils/sentences";
+import { getAnswerPolicy } from "../utils/answerPolicy";
+
+// Generation entry points used by the app. The work is done by the study's
+// provider (Gemini by default, see generationProvider.ts).
+const getClient = (): GenerationProvider => {
+  // Offline sessions must be served entirely from the content packs
+  if (isOfflineMode()) {
+    throw new Error("Offline mode: this content is not in the offline bundle.");
   }
-  return new GoogleGenAI({ apiKey });
+  return getProvider();
 };
 
 // --- CACHING STRATEGY TO REDUCE RPM ---
-// We store generated content in memory so repeated requests for the same
-// parameters do not hit the API limits.
-const scriptCache = new Map<string, string>();
-const audioCache = new Map<string, string>();
-const quizCache = new Map<string, QuizQuestion[]>();
-const AUDIO_CACHE_LIMIT = 10; // Limit large audio files in memory
-
-// PRE-SCRIPTED CONTENT structured by complexity and pacing
-const PRE_SCRIPTED_CONTENT: Record<string, Record<TutoringComplexity, Record<TutoringPacing, string>>> = {
-  "Photosynthesis": {
-    [TutoringComplexity.SIMPLE]: {
-      [TutoringPacing.NORMAL]: "Photosynthesis is how plants make their own food. Imagine plants are like little green chefs! They take three main ingredients: sunlight, water, and a gas from the air called carbon dioxide. Inside the plant's leaves, there are tiny green parts called chloroplasts. These chloroplasts act like solar panels, catching the sun's energy. They use this energy to mix the water and carbon dioxide together. This process creates a special kind of sugar called glucose, which is the plant's food. While making food, plants also release oxygen into the air, which is the very air we need to breathe!",
-      [TutoringPacing.FAST]: "Photosynthesis is the amazing way plants create their own fuel! They act like tiny solar-powered factories. Using sunlight, water, and carbon dioxide, plants perform a magical chemical reaction inside their leaves. Specifically, inside parts called chloroplasts, the sun's energy turns water and air into glucose—a sweet sugar that helps the plant grow tall and strong. As a bonus for us, plants release fresh oxygen back into the atmosphere. This cycle is the heartbeat of our planet, providing the food we eat and the very air we breathe every single second of the day."
-    },
-    [TutoringComplexity.COMPLEX]: {
-      [TutoringPacing.NORMAL]: "Photosynthesis is a sophisticated multi-stage biochemical process occurring primarily within the chloroplasts of photoautotrophs. It consists of two main phases: the light-dependent reactions and the light-independent Calvin cycle. During the light-dependent phase, chlorophyll molecules within the thylakoid membranes absorb photons, exciting electrons and initiating an electron transport chain. This leads to the photolysis of water, releasing oxygen as a byproduct and generating ATP and NADPH. These energy carriers then power the Calvin cycle in the stroma to produce carbohydrates.",
-      [TutoringPacing.FAST]: "Photosynthesis represents a pinnacle of biological engineering, transforming electromagnetic radiation into chemical energy. This complex redox process is partitioned into light-harvesting reactions and the enzymatic carbon-fixation of the Calvin cycle. In the thylakoid membranes, P680 and P700 reaction centers facilitate non-cyclic electron flow, driving the synthesis of ATP through chemiosmosis and the reduction of NADP+. Subsequently, in the stroma, the enzyme Rubisco catalyzes the fixation of CO2 into 3-phosphoglycerate. This metabolic pathway is not only responsible for the vast majority of biomass on Earth but also regulates the global carbon cycle and atmospheric oxygen levels, sustaining complex life across all terrestrial ecosystems."
-    }
-  },
-  "Business Studies": {
-    [TutoringComplexity.SIMPLE]: {
-      [TutoringPacing.NORMAL]: "Business is all about people working together to provide things that other people want or need. Think of a lemonade stand: you buy lemons and sugar, which are your costs. Then you make lemonade and sell it for a price. If the money you get from selling is more than what you spent on ingredients, you have made a profit! Profit is important because it helps the business grow. Every successful business starts with a good idea and a plan to reach customers who will value what you are offering.",
-      [TutoringPacing.FAST]: "Starting a business is like going on an adventure where you provide value to others. Whether you're selling a physical product like a handmade toy or a service like walking a dog, the goal is to solve a problem for your customers. You have to manage your expenses carefully—that's the money you spend on supplies—to ensure you make a profit. Profit allows you to buy better equipment and reach more people. Successful entrepreneurs constantly look for new ways to improve and grow, building strong relationships with their community and creating a brand that people trust and love."
-    },
-    [TutoringComplexity.COMPLEX]: {
-      [TutoringPacing.NORMAL]: "Business studies explores the dynamic organizational structures and economic principles that drive commercial activity. At its core, a firm aims to maximize shareholder value through efficient resource allocation and strategic positioning. This involves analyzing market structures, such as perfect competition or oligopolies, and understanding the supply-demand equilibrium. Strategic management tools, like SWOT analysis and Porter’s Five Forces, allow businesses to assess their competitive advantages and navigate external macroeconomic factors.",
-      [TutoringPacing.FAST]: "The study of business encompasses the intricate relationship between organizational behavior, financial strategy, and market dynamics. Contemporary firms must optimize their value chains through vertical or horizontal integration while navigating the complexities of global supply chains. Financial analysis relies on key metrics like the Weighted Average Cost of Capital and Net Present Value to guide investment decisions. Furthermore, the advent of digital transformation has redefined competitive landscapes, necessitating agile methodologies and robust data analytics. Understanding these systemic interactions is crucial for managing corporate governance, ensuring fiscal sustainability, and achieving long-term strategic objectives in a volatile global economy."
-    }
-  },
-  "Climate Change": {
-    [TutoringComplexity.SIMPLE]: {
-      [TutoringPacing.NORMAL]: "Climate change means that the Earth's average temperature is getting warmer over a long time. This is happening because of the greenhouse effect. Imagine the Earth is wearing a thick blanket made of gases like carbon dioxide. When we drive cars or use power from factories, we add more layers to that blanket, trapping too much of the sun's heat. This extra warmth is causing ice at the North and South Poles to melt, which makes the sea levels rise and causes more extreme weather.",
-      [TutoringPacing.FAST]: "Climate change is a global challenge where the Earth's temperature is rising faster than ever before. This warming is caused by the buildup of greenhouse gases which act like a giant greenhouse, trapping heat inside our atmosphere. Human activities, such as burning fossil fuels and cutting down forests, are the main drivers of this change. As the planet heats up, we see melting glaciers, rising oceans, and more frequent heatwaves and storms. However, by switching to clean energy like wind and solar and protecting our forests, we can work together to keep our planet cool and safe for future generations."
-    },
-    [TutoringComplexity.COMPLEX]: {
-      [TutoringPacing.NORMAL]: "Climate change refers to significant, long-term shifts in global temperature and weather patterns, primarily driven by anthropogenic greenhouse gas emissions since the Industrial Revolution. The core mechanism is radiative forcing, where gases such as carbon dioxide and methane trap infrared radiation within the troposphere. This leads to a warming trend that triggers various feedback loops, such as the ice-albedo feedback, where melting polar ice reduces the Earth's reflectivity, accelerating further warming.",
-      [TutoringPacing.FAST]: "Anthropogenic climate change is characterized by an unprecedented increase in global mean temperatures, primarily attributed to the combustion of hydrocarbons and land-use alterations. This phenomenon is driven by the enhanced greenhouse effect, where increased concentrations of trace gases disrupt the Earth's energy balance. Scientific modeling, including GCMs, indicates that exceeding the 1.5-degree Celsius threshold could trigger irreversible tipping points, such as the collapse of the Atlantic Meridional Overturning Circulation. Mitigation strategies require a rapid decarbonization of the energy sector, coupled with carbon sequestration and adaptive resilience policies. Addressing this systemic crisis is the defining environmental and geopolitical challenge of the twenty-first century."
-    }
+// Generated content is cached persistently (utils/generationCache.ts), so
+// repeated requests, and reloads, do not hit the API limits and a script keeps
+// the same audio and quiz. A failing cache never blocks generation.
+// `check` may repair a cached value, or reject it (undefined) to regenerate.
+// A rejected pinned entry is unpinned, so the regenerated one can replace it.
+const withCache = async <T>(
+  kind: GenerationCacheKind,
+  input: string,
+  label: string,
+  generate: () => Promise<T>,
+  check: (cached: T) => T | undefined = cached => cached
+): Promise<T> => {
+  const provider = getProvider();
+  const model = `${provider.name}:${kind === 'audio' ? provider.models.speech : provider.models.text}`;
+  const scope = { model, promptVersion: kind === 'audio' ? '-' : PROMPT_VERSIONS[kind] };
+
+  const cached = await getCachedGeneration<T>(kind, input, scope).catch(e => {
+    console.warn("[GeminiService] Generation cache unavailable", e);
+    return undefined;
+  });
+  const usable = cached === undefined ? undefined : check(cached.value);
+  if (usable !== undefined) {
+    console.log(`[GeminiService] Serving ${kind} from cache to save RPM.`);
+    return usable;
+  }
+  if (cached?.entry.pinned) {
+    console.warn(`[GeminiService] Pinned ${kind} for "${label}" failed its check; unpinning it.`);
+    setCacheEntryPinned(cached.entry.key, false).catch(e => console.warn("[GeminiService] Could not unpin cache entry", e));
   }
+
+  const result = await generate();
+  putCachedGeneration(kind, input, scope, label, result).catch(e => console.warn("[GeminiService] Could not cache generation", e));
+  return result;
 };
 
-// Retry Helper
+const preview = (text: string) => text.length > 60 ? `${text.slice(0, 60)}...` : text;
+
+// Retry Helper: server errors, and rate limiting (429) with a longer wait
+const RATE_LIMIT_DELAY_MS = 4000;
+
 async function withRetry<T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> {
   try {
     return await fn();
   } catch (error: any) {
-    const isRetryable = error.status >= 500 || error.message?.includes('Internal error') || error.message?.includes('Overloaded');
+    const isRateLimited = error.status === 429 || error.message?.includes('RESOURCE_EXHAUSTED');
+    const isRetryable = isRateLimited || error.status >= 500 || error.message?.includes('Internal error') || error.message?.includes('Overloaded');
     if (retries > 0 && isRetryable) {
-      await new Promise(resolve => setTimeout(resolve, delay));
-      return withRetry(fn, retries - 1, delay * 2);
+      const wait = isRateLimited ? Math.max(delay, RATE_LIMIT_DELAY_MS) : delay;
+      await new Promise(resolve => setTimeout(resolve, wait));
+      return withRetry(fn, retries - 1, wait * 2);
     }
     throw error;
   }
@@ -73,158 +82,145 @@ export const generateTutoringScript = async (
   complexity: TutoringComplexity,
   pacing: TutoringPacing
 ): Promise<string> => {
-  const cacheKey = `${topic}-${complexity}-${pacing}`;
-  
-  if (scriptCache.has(cacheKey)) {
-    return scriptCache.get(cacheKey)!;
-  }
+  // Installed content packs take precedence over generation
+  const lesson = findLessonContent(topic, complexity, pacing);
+  if (lesson) return lesson.script;
+
+  // Fallback to LLM if topic is not in any content pack
+  return withCache('script', `${topic}|${complexity}|${pacing}`, `${topic} (${cellName(complexity, pacing)})`, () =>
+    withRetry(async () => {
+      const script = await getClient().generateScript({ topic, complexity, pacing, prompt: scriptPrompt(topic, complexity, pacing) });
+      return script.replace(/\*+/g, '').trim();
+    }));
+};
 
-  // Check if we have a pre-scripted response for this topic, complexity, AND pacing
-  if (PRE_SCRIPTED_CONTENT[topic] && PRE_SCRIPTED_CONTENT[topic][complexity] && PRE_SCRIPTED_CONTENT[topic][complexity][pacing]) {
-    const content = PRE_SCRIPTED_CONTENT[topic][complexity][pacing];
-    scriptCache.set(cacheKey, content);
-    return content;
-  }
+// 2. Generate Audio (TTS)
+export const generateTutoringAudio = async (text: string): Promise<string> => {
+  const packed = findLessonContentByScript(text);
+  if (packed?.audioData) return packed.audioData;
+  if (packed?.audioUrl) return loadPackedAudio(packed.audioUrl);
 
-  // Fallback to LLM if topic is not pre-scripted
-  const result = await withRetry(async () => {
-    const client = getClient();
-    const complexityPrompt = complexity === TutoringComplexity.SIMPLE 
-      ? "Use extremely simple vocabulary and short sentences for a 6th grader." 
-      : "Use technical academic terminology and complex logic.";
-      
-    // Enforce distinct content differences for pacing beyond just length
-    const lengthPrompt = pacing === TutoringPacing.FAST
-      ? "Approximately 160 words long. Use a faster-paced narrative style with high information density."
-      : "Approximately 100 words long. Use a relaxed, slower-paced narrative style with pauses for reflection.";
-
-    const prompt = `Write a plain text educational script about ${topic}. Level: ${complexity}. Instruction: ${complexityPrompt} ${lengthPrompt}`;
-
-    const response = await client.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-    });
+  return withCache('audio', text, preview(text), () => withRetry(() => getClient().synthesizeSpeech(text)));
+};
 
-    return (response.text || "Failed to generate script.").replace(/\*+/g, '').trim();
-  });
-  
-  scriptCache.set(cacheKey, result);
-  return result;
+// 2b. Lesson audio, one segment per sentence, so interruptions and playback can
+// be located to a sentence. Pack audio is pre-rendered for the whole script, so
+// it stays a single segment.
+export const generateLessonAudio = async (script: string): Promise<LessonSegmentAudio[]> => {
+  const packed = findLessonContentByScript(script);
+  if (packed?.audioData || packed?.audioUrl) {
+    return [{ text: script, audioBase64: await generateTutoringAudio(script) }];
+  }
+
+  // One request at a time: the speech model's rate limit is the tightest
+  const segments: LessonSegmentAudio[] = [];
+  for (const text of splitSentences(script)) {
+    segments.push({ text, audioBase64: await generateTutoringAudio(text) });
+  }
+  return segments;
 };
 
-// 2. Generate Audio (TTS)
-export const generateTutoringAudio = async (text: string): Promise<string> => {
-  // Check cache (using text as key)
-  if (audioCache.has(text)) {
-    console.log("[GeminiService] Serving audio from cache to save RPM.");
-    return audioCache.get(text)!;
+// 3. Generate Quiz
+// Generated quizzes are validated and repaired (utils/quizItems.ts) before use.
+// After MAX_QUIZ_ATTEMPTS failures another pack quiz for the topic is used if
+// there is one. Every outcome is recorded in the session log.
+const MAX_QUIZ_ATTEMPTS = 3;
+
+class QuizValidationError extends Error {
+  constructor(public readonly attempts: QuizValidationAttempt[]) {
+    super(`Generated quiz failed validation ${attempts.length} times:\n${attempts[attempts.length - 1]?.problems.join('\n')}`);
+    this.name = 'QuizValidationError';
   }
+}
 
-  const result = await withRetry(async () => {
-    const client = getClient();
-    const response = await client.models.generateContent({
-      model: 'gemini-2.5-flash-preview-tts',
-      contents: [{ parts: [{ text }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Kore' },
-          },
-        },
-      },
-    });
-    const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!audioData) throw new Error("Failed to generate audio.");
-    return audioData;
-  });
+const recordQuiz = (kind: QuizValidationRecord['kind'], source: QuizValidationRecord['source'], attempts: QuizValidationAttempt[], valid = true) =>
+  logger.recordQuizValidation({ timestamp: Date.now(), kind, source, attempts, valid });
+
+const generateValidatedQuiz = async (
+  kind: QuizValidationRecord['kind'],
+  script: string,
+  exclude: QuizQuestion[],
+  cacheInput: string,
+  prompt: string
+): Promise<QuizQuestion[]> => {
+  // Answerability is checked for the post-test only; pre-test items rely on general knowledge
+  const options: QuizValidationOptions = { script: kind === 'quiz' ? script : undefined, exclude };
+  const attempts: QuizValidationAttempt[] = [];
+  let fromCache = true;
 
-  // Manage cache size
-  if (audioCache.size >= AUDIO_CACHE_LIMIT) {
-    const firstKey = audioCache.keys().next().value;
-    if (firstKey) audioCache.delete(firstKey);
+  try {
+    const quiz = await withCache(kind, cacheInput, preview(script), async () => {
+      fromCache = false;
+      for (let attempt = 1; attempt <= MAX_QUIZ_ATTEMPTS; attempt++) {
+        const raw = await withRetry(() => getClient().generateQuiz({ script, kind, exclude, prompt }));
+        const { valid, items, ...outcome } = validateQuiz(raw, options);
+        attempts.push(outcome);
+        if (valid) return items;
+        console.warn(`[GeminiService] ${kind} attempt ${attempt} failed validation, regenerating.`, outcome.problems);
+      }
+      throw new QuizValidationError(attempts);
+    }, cached => {
+      // Entries cached before validation existed are checked too
+      const { valid, items, ...outcome } = validateQuiz(cached, options);
+      attempts.push(outcome);
+      return valid ? items : undefined;
+    });
+    recordQuiz(kind, fromCache ? 'cache' : 'generated', attempts);
+    return quiz;
+  } catch (error) {
+    if (!(error instanceof QuizValidationError)) throw error;
+    const fallback = findFallbackQuiz(script, kind, exclude);
+    recordQuiz(kind, 'fallback', attempts, !!fallback);
+    if (!fallback) throw error;
+    console.warn(`[GeminiService] Using another pack ${kind} for this topic.`);
+    return fallback;
   }
-  
-  audioCache.set(text, result);
-  return result;
 };
 
-// 3. Generate Quiz
 export const generateQuiz = async (script: string): Promise<QuizQuestion[]> => {
-  // Use script as cache key since quiz is derived from it
-  if (quizCache.has(script)) {
-    return quizCache.get(script)!;
+  const packed = findLessonContentByScript(script)?.quiz;
+  if (packed) {
+    recordQuiz('quiz', 'pack', []);
+    return packed;
   }
 
-  const result = await withRetry(async () => {
-    const client = getClient();
-    const response = await client.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Based on this text, generate 3 multiple-choice questions (1: Recall, 2: Conceptual, 3: Higher-order): "${script}"`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              question: { type: Type.STRING },
-              options: { type: Type.ARRAY, items: { type: Type.STRING } },
-              correctIndex: { type: Type.INTEGER },
-            },
-            required: ["question", "options", "correctIndex"]
-          },
-        },
-      },
-    });
-    return JSON.parse(response.text || "[]");
-  });
+  // Keyed by script, since the quiz is derived from it
+  return generateValidatedQuiz('quiz', script, [], script, quizPrompt(script));
+};
 
-  quizCache.set(script, result);
-  return result;
+// 3b. Generate Pre-test
+// A parallel form of the post-lesson quiz: same concepts and cognitive levels,
+// different items, so prior knowledge can be separated from learning.
+export const generatePreTest = async (script: string, postTest: QuizQuestion[]): Promise<QuizQuestion[]> => {
+  // Pack pre-tests are checked against the pack's quiz at load time
+  const packed = findLessonContentByScript(script)?.preTest;
+  if (packed && !quizzesOverlap(postTest, packed)) {
+    recordQuiz('preTest', 'pack', []);
+    return packed;
+  }
+
+  // Keyed by script and post-test, since the pre-test must avoid the post-test's items
+  // (validation rejects any overlap)
+  const input = `${script}|${postTest.map(q => q.question).join('|')}`;
+  return generateValidatedQuiz('preTest', script, postTest, input, preTestPrompt(script, postTest));
 };
 
-export const answerLearnerQuestion = async (contextScript: string, userAudioBase64: string): Promise<{userTranscript: string, aiAnswer: string, audioData: string}> => {
-  return withRetry(async () => {
-    const client = getClient();
-    const prompt = `Answer student question based on context: "${contextScript}". Short answer (max 20 words).`;
-    const response = await client.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: {
-            parts: [
-                { text: prompt },
-                { inlineData: { mimeType: 'audio/webm', data: userAudioBase64 } }
-            ]
-        },
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    userTranscript: { type: Type.STRING },
-                    aiAnswer: { type: Type.STRING }
-                }
-            }
-        }
-    });
-    let result = JSON.parse(response.text || '{"userTranscript":"?","aiAnswer":"..."}');
-    
-    // This call is also cached if the answer text is identical to a previous one
-    const audioData = await generateTutoringAudio(result.aiAnswer);
-    
-    return { ...result, audioData };
-  });
+// Answers with the study's answer policy (utils/answerPolicy.ts)
+export const answerLearnerQuestion = async (context: AnswerContext, userAudioBase64: string): Promise<{userTranscript: string, aiAnswer: string, audioData: string}> => {
+  // Only the answer is retried here: a speech failure must not ask the question again
+  const result = await withRetry(() => getClient().answerQuestion({
+    context,
+    audioBase64: userAudioBase64,
+    mimeType: 'audio/webm',
+    prompt: answerPrompt(context, getAnswerPolicy())
+  }));
+
+  // This call is also cached if the answer text is identical to a previous one, and retries on its own
+  const audioData = await generateTutoringAudio(result.aiAnswer);
+
+  return { ...result, audioData };
 };
 
 export const generateAppBackground = async (): Promise<string> => {
-  return withRetry(async () => {
-    const client = getClient();
-    const response = await client.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: { parts: [{ text: 'Abstract digital neural networks, dark blue and slate colors, high quality.' }] }
-    });
-    const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
-    if (part?.inlineData) return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-    throw new Error("No image generated");
-  });
+  return withRetry(() => getClient().generateImage(BACKGROUND_PROMPT));
 };
@@ -0,0 +1,96 @@
+import { GenerationProviderConfig, ProviderStamp, QuizQuestion, TutoringComplexity, TutoringPacing } from "../types";
+import { GeminiProvider } from "./providers/geminiProvider";
+import { MockProvider } from "./providers/mockProvider";
+import { OpenAICompatibleProvider } from "./providers/openAICompatibleProvider";
+
+// Backends for script, speech, quiz, question-answering and image generation.
+// Prompts come from services/prompts.ts; providers only run them and parse the
+// result. Caching, retries and content-pack lookup stay in geminiService.ts.
+
+export interface ScriptRequest {
+  topic: string;
+  complexity: TutoringComplexity;
+  pacing: TutoringPacing;
+  prompt: string;
+}
+
+export interface QuizRequest {
+  script: string;
+  kind: 'quiz' | 'preTest';
+  exclude: QuizQuestion[]; // Items the result must not repeat (the post-test, for a pre-test)
+  prompt: string;
+}
+
+// Where the learner is in the lesson when they interrupt
+export interface AnswerContext {
+  topic: string;
+  complexity: TutoringComplexity; // Current level (SIMPLE after a 'simplify' adaptation)
+  progressMs: number;
+  heardText: string; // Lesson text up to and including the sentence being heard
+  upcomingText: string;
+  history: { question: string; answer: string }[]; // Earlier turns in this lesson, oldest first
+}
+
+export interface AnswerRequest {
+  context: AnswerContext;
+  audioBase64: string; // The learner's recorded question
+  mimeType: string;
+  prompt: string;
+}
+
+export interface LearnerAnswer {
+  userTranscript: string;
+  aiAnswer: string;
+}
+
+export interface GenerationProvider {
+  readonly name: GenerationProviderConfig['type'];
+  readonly models: ProviderStamp['models'];
+  generateScript(request: ScriptRequest): Promise<string>;
+  synthesizeSpeech(text: string): Promise<string>; // Base64 16-bit PCM, 24 kHz mono
+  generateQuiz(request: QuizRequest): Promise<QuizQuestion[]>;
+  answerQuestion(request: AnswerRequest): Promise<LearnerAnswer>;
+  generateImage(prompt: string): Promise<string>; // data: URL
+}
+
+// Failed provider call; `status` drives the retry policy like an HTTP status
+export class ProviderError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+export const createProvider = (config: GenerationProviderConfig): GenerationProvider => {
+  switch (config.type) {
+    case 'gemini':
+      return new GeminiProvider(config);
+    case 'mock':
+      return new MockProvider();
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(config);
+  }
+};
+
+let activeProvider: GenerationProvider | null = null;
+
+// Set once per study from the protocol; Gemini until then
+export const configureProvider = (config?: GenerationProviderConfig) => {
+  activeProvider = createProvider(config ?? { type: 'gemini' });
+};
+
+export const getProvider = (): GenerationProvider => {
+  if (!activeProvider) configureProvider();
+  return activeProvider!;
+};
+
+export const getProviderStamp = (): ProviderStamp => ({ provider: getProvider().name, models: getProvider().models });
+
+// Developer override of the protocol's provider: ?provider=mock or ?provider=gemini
+export const getProviderOverride = (): GenerationProviderConfig | undefined => {
+  const param = new URLSearchParams(window.location.search).get('provider');
+  if (!param) return undefined;
+  if (param === 'mock' || param === 'gemini') return { type: param };
+  console.warn(`Ignoring unknown provider override "${param}"`);
+  return undefined;
+};
@@ -0,0 +1,57 @@
+import { ContentPack, ContentTopic, ContentCellMap, QuizQuestion, TutoringComplexity, TutoringPacing } from "../types";
+import { generateTutoringAudio, generateQuiz, generatePreTest } from "./geminiService";
+import { cellKeys, findLessonContent } from "../utils/contentPacks";
+import { DEFAULT_HOLD_MESSAGE } from "../utils/offlineMode";
+
+// Export step for offline sessions: run once with network access to turn a
+// content pack into a self-contained bundle, with every cell's quiz, pre-test
+// and lesson audio inline. Every participant then receives identical stimuli.
+
+export interface OfflineExportProgress {
+  done: number;
+  total: number;
+  current: string;
+}
+
+const setCell = <T>(map: ContentCellMap<T>, complexity: TutoringComplexity, pacing: TutoringPacing, value: T) => {
+  const [c, p] = cellKeys(complexity, pacing);
+  map[c] = { ...map[c], [p]: value };
+};
+
+export const buildOfflineBundle = async (
+  pack: ContentPack,
+  onProgress: (progress: OfflineExportProgress) => void
+): Promise<ContentPack> => {
+  const cells = Object.values(TutoringComplexity).flatMap(complexity =>
+    Object.values(TutoringPacing).map(pacing => ({ complexity, pacing })));
+  const total = pack.topics.length * cells.length + 1;
+  let done = 0;
+
+  // Sequential, to stay within the API rate limits
+  const topics: ContentTopic[] = [];
+  for (const topic of pack.topics) {
+    const quizzes: ContentCellMap<QuizQuestion[]> = {};
+    const preTests: ContentCellMap<QuizQuestion[]> = {};
+    const audioData: ContentCellMap<string> = {};
+    for (const { complexity, pacing } of cells) {
+      onProgress({ done, total, current: `${topic.title} (${cellKeys(complexity, pacing).join('/')})` });
+      const { script } = findLessonContent(topic.title, complexity, pacing)!;
+      const quiz = await generateQuiz(script);
+      setCell(quizzes, complexity, pacing, quiz);
+      setCell(preTests, complexity, pacing, await generatePreTest(script, quiz));
+      setCell(audioData, complexity, pacing, await generateTutoringAudio(script));
+      done++;
+    }
+    const { id, title, icon, description, scripts } = topic;
+    topics.push({ id, title, icon, description, scripts, quizzes, preTests, audioData });
+  }
+
+  onProgress({ done, total, current: 'Interruption reply' });
+  const holdText = pack.offlineHold?.text ?? DEFAULT_HOLD_MESSAGE;
+  const offlineHold = { text: holdText, audioData: await generateTutoringAudio(holdText) };
+  onProgress({ done: total, total, current: 'Done' });
+
+  // Build metadata marks the generated stimuli set while keeping the pack version
+  const stamp = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+  return { ...pack, version: `${pack.version}+offline.${stamp}`, topics, offlineHold };
+};
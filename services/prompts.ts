@@ -0,0 +1,49 @@
+import { TutoringComplexity, TutoringPacing, QuizQuestion, AnswerPolicy } from "../types";
+import type { AnswerContext } from "./generationProvider";
+import { splitSentences } from "../utils/sentences";
+
+// Prompts shared by every provider, so switching backend does not change the task
+
+// Part of every generation cache key for that kind: bump a kind's version
+// whenever its prompt's wording changes, so other kinds stay cached
+export const PROMPT_VERSIONS = { script: '1', quiz: '2', preTest: '2' };
+
+export const scriptPrompt = (topic: string, complexity: TutoringComplexity, pacing: TutoringPacing): string => {
+  const complexityPrompt = complexity === TutoringComplexity.SIMPLE
+    ? "Use extremely simple vocabulary and short sentences for a 6th grader."
+    : "Use technical academic terminology and complex logic.";
+
+  // Enforce distinct content differences for pacing beyond just length
+  const lengthPrompt = pacing === TutoringPacing.FAST
+    ? "Approximately 160 words long. Use a faster-paced narrative style with high information density."
+    : "Approximately 100 words long. Use a relaxed, slower-paced narrative style with pauses for reflection.";
+
+  return `Write a plain text educational script about ${topic}. Level: ${complexity}. Instruction: ${complexityPrompt} ${lengthPrompt}`;
+};
+
+// Items are requested in level order and tagged, so each keeps its level in the logs
+const LEVEL_INSTRUCTION = 'Give each question its cognitiveLevel ("recall", "conceptual" or "higher-order") and a difficulty ("easy", "medium" or "hard").';
+
+export const quizPrompt = (script: string): string =>
+  `Based on this text, generate 3 multiple-choice questions (1: Recall, 2: Conceptual, 3: Higher-order). ${LEVEL_INSTRUCTION} Text: "${script}"`;
+
+export const preTestPrompt = (script: string, postTest: QuizQuestion[]): string => {
+  const excluded = postTest.map((q, i) => `${i + 1}. ${q.question}`).join('\n');
+  return `Based on this text, generate 3 multiple-choice questions (1: Recall, 2: Conceptual, 3: Higher-order) that test the same concepts as, but must not repeat or paraphrase, these existing questions:\n${excluded}\n\n${LEVEL_INSTRUCTION} The questions will be answered BEFORE the learner reads the text, so they must be answerable from general knowledge of the topic. Text: "${script}"`;
+};
+
+export const answerPrompt = (context: AnswerContext, policy: AnswerPolicy): string => {
+  const lesson = policy.avoidSpoilers
+    ? `The learner has heard this much of the lesson: "${context.heardText}". ` +
+      (context.upcomingText ? `The rest of the lesson is still to come, so do not explain it; if the question is about it, say briefly that it will be covered soon: "${context.upcomingText}". ` : '')
+    : `Lesson: "${context.heardText} ${context.upcomingText}". The learner has heard up to: "${splitSentences(context.heardText).pop() ?? ''}". `;
+  const history = context.history.length > 0
+    ? `Earlier in this lesson the learner asked:\n${context.history.map(t => `Q: ${t.question}\nA: ${t.answer}`).join('\n')}\nRefer back to these if relevant. `
+    : '';
+  const level = context.complexity === TutoringComplexity.SIMPLE
+    ? "Use extremely simple vocabulary and short sentences for a 6th grader."
+    : "Use technical academic terminology, as the lesson does.";
+  return `Answer the student's spoken question about ${context.topic}. ${lesson}${history}${level} Short answer (max ${policy.maxWords} words).`;
+};
+
+export const BACKGROUND_PROMPT = 'Abstract digital neural networks, dark blue and slate colors, high quality.';
@@ -0,0 +1,120 @@
+import { GoogleGenAI, Modality, Type } from "@google/genai";
+import { GeminiProviderConfig, QuizQuestion } from "../../types";
+import { COGNITIVE_LEVELS, QUIZ_DIFFICULTIES } from "../../utils/quizItems";
+import type { GenerationProvider, ScriptRequest, QuizRequest, AnswerRequest, LearnerAnswer } from "../generationProvider";
+
+export const GEMINI_DEFAULTS = {
+  textModel: 'gemini-3-flash-preview',
+  speechModel: 'gemini-2.5-flash-preview-tts',
+  voice: 'Kore',
+  imageModel: 'gemini-2.5-flash-image'
+};
+
+const QUIZ_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      question: { type: Type.STRING },
+      options: { type: Type.ARRAY, items: { type: Type.STRING } },
+      correctIndex: { type: Type.INTEGER },
+      cognitiveLevel: { type: Type.STRING, enum: COGNITIVE_LEVELS },
+      difficulty: { type: Type.STRING, enum: QUIZ_DIFFICULTIES },
+    },
+    required: ["question", "options", "correctIndex", "cognitiveLevel"]
+  },
+};
+
+export class GeminiProvider implements GenerationProvider {
+  public readonly name = 'gemini';
+  public readonly models: GenerationProvider['models'];
+  private readonly config: Required<Omit<GeminiProviderConfig, 'type'>>;
+  private client: GoogleGenAI | null = null;
+
+  constructor(config: Omit<GeminiProviderConfig, 'type'> = {}) {
+    this.config = { ...GEMINI_DEFAULTS, ...config };
+    this.models = { text: this.config.textModel, speech: `${this.config.speechModel}/${this.config.voice}`, image: this.config.imageModel };
+  }
+
+  private getClient(): GoogleGenAI {
+    if (!this.client) {
+      const apiKey = process.env.API_KEY;
+      if (!apiKey) {
+        throw new Error("API_KEY environment variable is missing.");
+      }
+      this.client = new GoogleGenAI({ apiKey });
+    }
+    return this.client;
+  }
+
+  public async generateScript({ prompt }: ScriptRequest): Promise<string> {
+    const response = await this.getClient().models.generateContent({
+      model: this.config.textModel,
+      contents: prompt,
+    });
+    return response.text || "Failed to generate script.";
+  }
+
+  public async synthesizeSpeech(text: string): Promise<string> {
+    const response = await this.getClient().models.generateContent({
+      model: this.config.speechModel,
+      contents: [{ parts: [{ text }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName: this.config.voice },
+          },
+        },
+      },
+    });
+    const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!audioData) throw new Error("Failed to generate audio.");
+    return audioData;
+  }
+
+  public async generateQuiz({ prompt }: QuizRequest): Promise<QuizQuestion[]> {
+    const response = await this.getClient().models.generateContent({
+      model: this.config.textModel,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: QUIZ_SCHEMA,
+      },
+    });
+    return JSON.parse(response.text || "[]");
+  }
+
+  public async answerQuestion({ prompt, audioBase64, mimeType }: AnswerRequest): Promise<LearnerAnswer> {
+    const response = await this.getClient().models.generateContent({
+      model: this.config.textModel,
+      contents: {
+        parts: [
+          { text: prompt },
+          { inlineData: { mimeType, data: audioBase64 } }
+        ]
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            userTranscript: { type: Type.STRING },
+            aiAnswer: { type: Type.STRING }
+          }
+        }
+      }
+    });
+    return JSON.parse(response.text || '{"userTranscript":"?","aiAnswer":"..."}');
+  }
+
+  public async generateImage(prompt: string): Promise<string> {
+    const response = await this.getClient().models.generateContent({
+      model: this.config.imageModel,
+      contents: { parts: [{ text: prompt }] }
+    });
+    const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
+    if (part?.inlineData) return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+    throw new Error("No image generated");
+  }
+}
@@ -0,0 +1,123 @@
+import { QuizQuestion, TutoringComplexity, TutoringPacing } from "../../types";
+import type { GenerationProvider, ScriptRequest, QuizRequest, AnswerRequest, LearnerAnswer } from "../generationProvider";
+import { bytesToBase64 } from "../../utils/audio";
+import { splitSentences } from "../../utils/sentences";
+import { itemsOverlap } from "../../utils/quizItems";
+
+// Deterministic provider for demos and tests: no network, and the same input
+// always gives the same output. Speech is a tone per word, so lesson timing,
+// interruptions and the visualizer behave as with real audio.
+
+const SAMPLE_RATE = 24000;
+const WORD_MS = 220;
+const GAP_MS = 80;
+const SENTENCE_PAUSE_MS = 300;
+
+// FNV-1a, for stable per-input choices
+const hash = (text: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const SIMPLE_SENTENCES = [
+  'This is a short demo lesson about {topic}.',
+  'It uses simple words so it is easy to follow.',
+  'First, we look at what {topic} means.',
+  'Then, we see why {topic} matters in everyday life.',
+  'Finally, we think about one example of {topic}.',
+  'Experts study it with careful observation and measurement.',
+  'Small changes can sometimes have surprisingly large effects.',
+  'That is the end of the demo lesson.'
+];
+
+const COMPLEX_SENTENCES = [
+  'This demonstration lesson examines {topic} from a technical perspective.',
+  'It introduces the principal mechanisms that underlie {topic}.',
+  'The relationships between these mechanisms determine the observed outcomes.',
+  'Several competing models attempt to formalise {topic} quantitatively.',
+  'Their assumptions differ in scope, precision and empirical support.',
+  'Experimental evidence constrains which parameters remain plausible.',
+  'Interdisciplinary collaboration has refined these estimates considerably.',
+  'The lesson concludes by evaluating these models against one another.'
+];
+
+export class MockProvider implements GenerationProvider {
+  public readonly name = 'mock';
+  public readonly models = { text: 'mock', speech: 'mock-tones', image: 'mock-gradient' };
+
+  public async generateScript({ topic, complexity, pacing }: ScriptRequest): Promise<string> {
+    const sentences = complexity === TutoringComplexity.COMPLEX ? COMPLEX_SENTENCES : SIMPLE_SENTENCES;
+    const count = pacing === TutoringPacing.FAST ? sentences.length : 6;
+    return sentences.slice(0, count).map(s => s.replace(/\{topic\}/g, topic)).join(' ');
+  }
+
+  public async synthesizeSpeech(text: string): Promise<string> {
+    const words = text.split(/\s+/).filter(Boolean);
+    const samples: number[] = [];
+    const silence = (ms: number) => {
+      for (let i = 0; i < (ms / 1000) * SAMPLE_RATE; i++) samples.push(0);
+    };
+    words.forEach(word => {
+      const frequency = 160 + (hash(word.toLowerCase()) % 100);
+      const length = Math.round((WORD_MS / 1000) * SAMPLE_RATE);
+      for (let i = 0; i < length; i++) {
+        const envelope = Math.sin((Math.PI * i) / length); // No clicks at word edges
+        samples.push(Math.round(envelope * 0.25 * 32767 * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE)));
+      }
+      silence(/[.!?]$/.test(word) ? SENTENCE_PAUSE_MS : GAP_MS);
+    });
+    return bytesToBase64(new Uint8Array(Int16Array.from(samples).buffer));
+  }
+
+  // Cloze items built from the script's sentences: the quiz uses the first
+  // sentences, the pre-test the last ones with its own wording, skipping any
+  // that would overlap the post-test
+  public async generateQuiz({ script, kind, exclude }: QuizRequest): Promise<QuizQuestion[]> {
+    const sentences = splitSentences(script).filter(s => s.split(/\s+/).length >= 4);
+    const ordered = kind === 'preTest' ? [...sentences].reverse() : sentences;
+    const vocabulary = Array.from(new Set(script.toLowerCase().match(/[a-z]{5,}/g) ?? []));
+
+    const questions: QuizQuestion[] = [];
+    for (const sentence of ordered) {
+      if (questions.length === 3) break;
+      const words = sentence.replace(/[.!?]+$/, '').split(/\s+/);
+      const answer = words[words.length - 1].toLowerCase();
+      const stem = kind === 'preTest' ? 'Which word would you expect to end this statement' : 'Which word completes this statement from the lesson';
+      const question = `${stem}: "${words.slice(0, -1).join(' ')} ..."?`;
+      const distractors = vocabulary.filter(w => w !== answer);
+      const seed = hash(sentence);
+      const options = [answer];
+      for (let i = 0; options.length < 4 && i < distractors.length; i++) {
+        const candidate = distractors[(seed + i * 7) % distractors.length];
+        if (!options.includes(candidate)) options.push(candidate);
+      }
+      while (options.length < 4) options.push(`option ${options.length + 1}`);
+      const correctIndex = seed % options.length;
+      [options[0], options[correctIndex]] = [options[correctIndex], options[0]];
+      if (exclude.some(q => itemsOverlap(q, { question, options, correctIndex }))) continue;
+      // Completing a sentence from the lesson only tests recall
+      questions.push({ question, options, correctIndex, cognitiveLevel: 'recall', difficulty: 'easy' });
+    }
+    return questions;
+  }
+
+  // Points back to the sentence being heard
+  public async answerQuestion({ context }: AnswerRequest): Promise<LearnerAnswer> {
+    const sentences = splitSentences(context.heardText);
+    const first = sentences[sentences.length - 1] ?? '';
+    return {
+      userTranscript: '[mock transcript]',
+      aiAnswer: `Good question. Remember: ${first.split(/\s+/).slice(0, 16).join(' ')}`
+    };
+  }
+
+  public async generateImage(prompt: string): Promise<string> {
+    const hue = hash(prompt) % 360;
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1024" height="1024"><defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="hsl(${hue},45%,18%)"/><stop offset="1" stop-color="hsl(${(hue + 40) % 360},35%,8%)"/></linearGradient></defs><rect width="100%" height="100%" fill="url(#g)"/></svg>`;
+    return `data:image/svg+xml;base64,${btoa(svg)}`;
+  }
+}
@@ -0,0 +1,101 @@
+import { OpenAICompatibleProviderConfig, QuizQuestion } from "../../types";
+import { ProviderError } from "../generationProvider";
+import type { GenerationProvider, ScriptRequest, QuizRequest, AnswerRequest, LearnerAnswer } from "../generationProvider";
+import { bytesToBase64 } from "../../utils/audio";
+
+// Talks to a local server implementing the OpenAI REST API. Speech uses
+// response_format "pcm", which is 24 kHz 16-bit mono like Gemini TTS.
+
+const QUIZ_FORMAT = 'Respond with a JSON object of the form {"questions": [{"question": "...", "options": ["...", "..."], "correctIndex": 0, "cognitiveLevel": "recall", "difficulty": "easy"}]}.';
+const ANSWER_FORMAT = 'Respond with the answer text only.';
+
+export class OpenAICompatibleProvider implements GenerationProvider {
+  public readonly name = 'openai-compatible';
+  public readonly models: GenerationProvider['models'];
+  private readonly baseUrl: string;
+
+  constructor(private readonly config: OpenAICompatibleProviderConfig) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.models = {
+      text: config.textModel,
+      speech: config.speechModel ? `${config.speechModel}/${config.voice ?? 'alloy'}` : '',
+      image: config.imageModel ?? ''
+    };
+  }
+
+  private async request(path: string, body: BodyInit, json = true): Promise<Response> {
+    const headers: Record<string, string> = {};
+    if (json) headers['Content-Type'] = 'application/json';
+    if (this.config.apiKey) headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, { method: 'POST', headers, body });
+    } catch (e: any) {
+      // Unreachable server: worth retrying, like a 503
+      throw new ProviderError(`Could not reach ${this.baseUrl}${path}: ${e.message}`, 503);
+    }
+    if (!response.ok) {
+      throw new ProviderError(`${this.baseUrl}${path} failed (HTTP ${response.status}): ${await response.text()}`, response.status);
+    }
+    return response;
+  }
+
+  private async chat(prompt: string, jsonObject = false): Promise<string> {
+    const response = await this.request('/chat/completions', JSON.stringify({
+      model: this.config.textModel,
+      messages: [{ role: 'user', content: prompt }],
+      ...(jsonObject && { response_format: { type: 'json_object' } })
+    }));
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content ?? '';
+  }
+
+  private requireModel(model: string | undefined, field: string): string {
+    if (!model) throw new ProviderError(`openai-compatible provider: "${field}" is not configured.`);
+    return model;
+  }
+
+  public async generateScript({ prompt }: ScriptRequest): Promise<string> {
+    return (await this.chat(prompt)) || "Failed to generate script.";
+  }
+
+  public async synthesizeSpeech(text: string): Promise<string> {
+    const response = await this.request('/audio/speech', JSON.stringify({
+      model: this.requireModel(this.config.speechModel, 'speechModel'),
+      input: text,
+      voice: this.config.voice ?? 'alloy',
+      response_format: 'pcm'
+    }));
+    return bytesToBase64(new Uint8Array(await response.arrayBuffer()));
+  }
+
+  public async generateQuiz({ prompt }: QuizRequest): Promise<QuizQuestion[]> {
+    const parsed = JSON.parse(await this.chat(`${prompt}\n\n${QUIZ_FORMAT}`, true) || '{}');
+    return Array.isArray(parsed) ? parsed : parsed.questions ?? [];
+  }
+
+  // Transcribe, then answer from the transcript
+  public async answerQuestion({ prompt, audioBase64, mimeType }: AnswerRequest): Promise<LearnerAnswer> {
+    const bytes = Uint8Array.from(atob(audioBase64), c => c.charCodeAt(0));
+    const form = new FormData();
+    form.append('model', this.requireModel(this.config.transcriptionModel, 'transcriptionModel'));
+    form.append('file', new Blob([bytes], { type: mimeType }), 'question.webm');
+    const transcription = await (await this.request('/audio/transcriptions', form, false)).json();
+    const userTranscript: string = transcription.text ?? '';
+
+    const aiAnswer = await this.chat(`${prompt}\nStudent question: "${userTranscript}"\n${ANSWER_FORMAT}`);
+    return { userTranscript, aiAnswer: aiAnswer.trim() || '...' };
+  }
+
+  public async generateImage(prompt: string): Promise<string> {
+    const response = await this.request('/images/generations', JSON.stringify({
+      model: this.requireModel(this.config.imageModel, 'imageModel'),
+      prompt,
+      response_format: 'b64_json'
+    }));
+    const data = await response.json();
+    const image = data.data?.[0]?.b64_json;
+    if (!image) throw new ProviderError("No image generated");
+    return `data:image/png;base64,${image}`;
+  }
+}
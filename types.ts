@@ -1,12 +1,23 @@
 
 export enum AppState {
+  PROTOCOL_LOADING,
+  PROTOCOL_ERROR,
+  REGISTRATION,
+  CONSENT_DECLINED,
   WELCOME,
   CALIBRATION_INTRO,
   CALIBRATION_RUNNING,
   CALIBRATION_COMPLETE,
   TUTORING_SETUP,
   TUTORING_SESSION,
-  FINISHED
+  FINISHED,
+  QUESTIONNAIRE,
+  BREAK,
+  DEBRIEF,
+  RETENTION_OFFER,
+  RETENTION_TEST,
+  OFFLINE_EXPORT,
+  CACHE_INSPECTOR
 }
 
 export enum WorkloadCondition {
@@ -14,6 +25,60 @@ export enum WorkloadCondition {
   HIGH = 'HIGH' // Mental Arithmetic
 }
 
+export type CalibrationOrdering = 'alternating' | 'blocked' | 'randomized';
+
+// 'none': mental only; 'intermediate': type each result; 'final': type the last result after the trial
+export type ArithmeticResponseMode = 'none' | 'intermediate' | 'final';
+
+export interface ArithmeticDifficulty {
+  startMin: number;
+  startMax: number;
+  stepMin: number;
+  stepMax: number;
+  excludedSteps: number[]; // Steps that make the task too easy (e.g. 10, 15)
+}
+
+export interface CalibrationConfig {
+  trialCount: number;
+  restDurationMs: number; // LOW trials
+  taskDurationMs: number; // HIGH trials
+  interTrialIntervalMs: number; // Fixation between trials
+  interTrialJitterMs: number; // Uniform random 0..jitter added to each ITI
+  ordering: CalibrationOrdering;
+  startWith: WorkloadCondition; // First condition for 'alternating' / 'blocked'
+  sequence?: WorkloadCondition[]; // Explicit order, overrides trialCount and ordering
+  responseMode: ArithmeticResponseMode;
+  finalResponseTimeoutMs: number; // Time allowed to enter the final result ('final' mode)
+  arithmetic: ArithmeticDifficulty;
+}
+
+export interface ArithmeticResponse {
+  value: number;
+  latencyMs: number; // Since trial onset ('intermediate') or response prompt ('final')
+  interResponseMs: number; // Since the previous response (or onset/prompt for the first)
+  expected: number; // Previous response (or start number) minus step
+  isCorrect: boolean;
+}
+
+export interface ArithmeticTrialResult {
+  trialIndex: number;
+  responseMode: ArithmeticResponseMode;
+  startNumber: number;
+  step: number;
+  responses: ArithmeticResponse[];
+  subtractionCount: number; // Responses given, or subtractions implied by the final result
+  correctCount: number;
+  accuracy: number | null; // correctCount / responses, null if nothing was entered
+  finalValue?: number;
+}
+
+export interface CalibrationTrial {
+  index: number;
+  condition: WorkloadCondition;
+  durationMs: number;
+  interTrialIntervalMs: number; // Fixation shown before this trial
+}
+
 export enum TutoringComplexity {
   SIMPLE = 'A',
   COMPLEX = 'B'
@@ -24,30 +89,361 @@ export enum TutoringPacing {
   FAST = 'D'
 }
 
+export interface ParticipantDemographics {
+  age?: number;
+  gender?: string;
+  handedness?: string;
+  nativeLanguage?: string;
+  education?: string;
+}
+
+export interface ParticipantInfo {
+  participantId: string; // Entered by the experimenter
+  demographics: ParticipantDemographics;
+  consentGiven: boolean;
+  consentTimestamp: number;
+}
+
 export type SessionMode = 'explanation' | 'interruption' | 'quiz' | 'default';
 
+// 'fixed': conditions are presented in the order listed by the protocol
+export type CounterbalancingMethod = 'latin-square' | 'permutation' | 'fixed';
+
+export interface ScheduledCondition {
+  combinationId: number;
+  complexity: TutoringComplexity;
+  pacing: TutoringPacing;
+  topic: string;
+  topicReused: boolean; // More conditions than topics, so this topic was already seen
+}
+
+export interface ConditionSchedule {
+  method: CounterbalancingMethod;
+  sequenceIndex: number; // Latin-square row or permutation index
+  conditions: ScheduledCondition[];
+}
+
+export interface SchedulingInfo {
+  method: CounterbalancingMethod;
+  sequenceIndex: number;
+  conditionOrder: number[]; // Combination IDs in the order presented
+  position: number; // 0-based index of this condition within conditionOrder
+  totalConditions: number;
+  topicReused: boolean;
+}
+
+// Mid-lesson adaptations the policy can trigger
+export type AdaptationAction = 'slow_down' | 'simplify' | 'recap' | 'pause' | 'question_prompt';
+
+// 'yoked' replays another participant's adaptation schedule regardless of workload (sham control)
+export type AdaptationMode = 'off' | 'adaptive' | 'yoked';
+
+export interface AdaptationPolicyConfig {
+  mode: AdaptationMode;
+  highThreshold: number; // Workload at or above this counts as overload
+  lowThreshold: number; // Overload ends only at or below this (hysteresis)
+  minDwellMs: number; // Time a workload state must hold, and minimum gap between adaptations
+  allowedActions: AdaptationAction[]; // Tried in order on each overload episode
+  slowdownFactor: number; // Playback-rate multiplier for 'slow_down'
+  recapMs: number; // How far 'recap' rewinds the lesson
+  pauseDurationMs: number;
+  yokedParticipantId?: string; // Source of the yoked schedule; latest matching session if omitted
+}
+
+export type AdaptationDecisionAction = AdaptationAction | 'restore_pace';
+
+export type AdaptationTrigger =
+  | { kind: 'workload'; workload: number; workloadState: 'normal' | 'high'; threshold: number; dwellMs: number }
+  | { kind: 'yoked'; sourceSessionId: string; sourceParticipantId: string; sourceTimestampRelative: number };
+
+export interface AdaptationDecision {
+  action: AdaptationDecisionAction;
+  trigger: AdaptationTrigger;
+  progressMs: number; // Lesson audio position when the decision was made
+  timestamp: number;
+  timestampRelative: number;
+}
+
+// On-screen lesson captions, an experimental factor: 'none' is audio only
+export type CaptionMode = 'none' | 'full' | 'sentence' | 'word';
+
 export interface TutoringConfig {
   topic: string;
   complexity: TutoringComplexity;
   pacing: TutoringPacing;
   combinationId: number;
+  scheduling?: SchedulingInfo;
+  isPractice?: boolean; // Practice lesson, not part of the condition schedule
+  adaptation?: AdaptationPolicyConfig; // Resolved for this condition
+  captions?: CaptionMode; // Resolved for this condition; absent means none
 }
 
+// Bloom-style level of a quiz item, collapsed to the quiz prompt's three
+// positions: recall (remember), conceptual (understand), higher-order (apply and above)
+export type CognitiveLevel = 'recall' | 'conceptual' | 'higher-order';
+export type QuizDifficulty = 'easy' | 'medium' | 'hard';
+
 export interface QuizQuestion {
   question: string;
   options: string[];
   correctIndex: number;
+  cognitiveLevel?: CognitiveLevel; // Set by generation or the content pack
+  difficulty?: QuizDifficulty;
+}
+
+// Content packs (see utils/contentPacks.ts). Cells are keyed by readable
+// complexity / pacing names rather than the opaque enum values.
+export type ContentCellMap<T> = Partial<Record<'simple' | 'complex', Partial<Record<'normal' | 'fast', T>>>>;
+
+export interface ContentTopic {
+  id: string;
+  title: string; // Used as the topic name in protocols and logs
+  icon?: string;
+  description?: string;
+  scripts: ContentCellMap<string>; // All four cells are required
+  quiz?: QuizQuestion[]; // Fixed post-lesson quiz for every cell
+  quizzes?: ContentCellMap<QuizQuestion[]>; // Per-cell override of quiz
+  preTest?: QuizQuestion[];
+  preTests?: ContentCellMap<QuizQuestion[]>;
+  audio?: ContentCellMap<string>; // Pre-rendered lesson audio: URL (relative to the pack) of base64 24 kHz 16-bit PCM
+  audioData?: ContentCellMap<string>; // Same audio inline, as written by the offline bundle export
+}
+
+export interface ContentPack {
+  id: string;
+  version: string;
+  title?: string;
+  topics: ContentTopic[];
+  offlineHold?: { text: string; audioData?: string }; // Canned interruption reply for offline sessions
+}
+
+// Offline sessions (see utils/offlineMode.ts). Without speech recognition the
+// learner's question cannot be understood, so interruptions get a local reply.
+export type OfflineInterruptionFallback = 'hold' | 'retrieve';
+
+export interface OfflineConfig {
+  interruptionFallback: OfflineInterruptionFallback; // 'hold': canned reply; 'retrieve': repeat the script passage just heard
+  holdMessage?: string; // Replaces the bundle's canned text (shown without audio)
+}
+
+// How interruption questions are answered (see utils/answerPolicy.ts)
+export interface AnswerPolicy {
+  maxWords: number;
+  avoidSpoilers: boolean; // Keep to what the learner has heard; later content is only hinted at
+  historyTurns: number; // Earlier questions and answers from the lesson passed to the model
+}
+
+// Generation backends (see services/providers/). Model names default per provider.
+export interface GeminiProviderConfig {
+  type: 'gemini';
+  textModel?: string;
+  speechModel?: string;
+  voice?: string;
+  imageModel?: string;
+}
+
+// Deterministic stand-in: no network, same output for the same input
+export interface MockProviderConfig {
+  type: 'mock';
+}
+
+// Any server speaking the OpenAI REST API (llama.cpp, Ollama, LM Studio, vLLM...)
+export interface OpenAICompatibleProviderConfig {
+  type: 'openai-compatible';
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  apiKey?: string;
+  textModel: string;
+  speechModel?: string; // /audio/speech; required for lesson audio
+  voice?: string;
+  transcriptionModel?: string; // /audio/transcriptions; required for interruptions
+  imageModel?: string;
+}
+
+export type GenerationProviderConfig = GeminiProviderConfig | MockProviderConfig | OpenAICompatibleProviderConfig;
+
+// Which backend and models produced generated content
+export interface ProviderStamp {
+  provider: GenerationProviderConfig['type'];
+  models: { text: string; speech: string; image: string }; // speech is "<model>/<voice>"
+}
+
+// Which pack a lesson's content came from, and which parts were fixed vs generated
+export interface ContentStamp {
+  packId: string;
+  packVersion: string;
+  topicId: string;
+  sources: { script: 'pack'; quiz: 'pack' | 'generated'; preTest?: 'pack' | 'generated'; audio: 'pack' | 'generated' };
+}
+
+// One sentence of the lesson and its speech. A lesson with pre-rendered pack
+// audio is a single segment holding the whole script.
+export interface LessonSegmentAudio {
+  text: string;
+  audioBase64: string;
 }
 
 export interface TutoringSessionData {
   script: string;
-  audioBase64: string;
+  segments: LessonSegmentAudio[];
   quiz: QuizQuestion[];
+  preTest?: QuizQuestion[]; // Parallel items shown before the lesson, never overlapping quiz
+}
+
+export type NasaTlxSubscale = 'mentalDemand' | 'physicalDemand' | 'temporalDemand' | 'performance' | 'effort' | 'frustration';
+
+export type NasaTlxRatings = Record<NasaTlxSubscale, number>; // 0-100, performance: 0 = perfect, 100 = failure
+
+export interface NasaTlxPairwiseChoice {
+  pair: [NasaTlxSubscale, NasaTlxSubscale];
+  chosen: NasaTlxSubscale;
+}
+
+export interface NasaTlxResult extends NasaTlxRatings {
+  rawTlx: number; // Unweighted mean of the six subscales
+  weights?: Record<NasaTlxSubscale, number>; // Times chosen in the 15 pairwise comparisons (sums to 15)
+  pairwiseChoices?: NasaTlxPairwiseChoice[];
+  weightedTlx?: number; // Sum(rating * weight) / 15
+}
+
+// --- Post-session questionnaires ---
+
+export type QuestionnaireItemType = 'likert' | 'slider' | 'choice' | 'text';
+
+export interface QuestionnaireItem {
+  id: string;
+  text: string;
+  type: QuestionnaireItemType;
+  required?: boolean;
+  scalePoints?: number; // likert: number of points, scored 1..scalePoints
+  anchors?: string[]; // likert/slider: [low, high] or one label per point
+  min?: number; // slider
+  max?: number; // slider
+  step?: number; // slider
+  options?: string[]; // choice: stored as the selected option index
+  reverseScored?: boolean; // likert: scored as (scalePoints + 1 - value) when computing 'mean'
+}
+
+export type QuestionnaireScoring = 'none' | 'mean' | 'sus';
+
+export interface QuestionnaireDefinition {
+  id: string; // Instrument ID, used as the key in SessionLog.questionnaires
+  title: string;
+  instructions?: string;
+  items: QuestionnaireItem[];
+  scoring?: QuestionnaireScoring;
+}
+
+export type QuestionnaireAnswer = number | string | null; // null = not answered
+
+export interface QuestionnaireResponse {
+  instrumentId: string;
+  responses: Record<string, QuestionnaireAnswer>;
+  score?: number;
+  startedAt: number;
+  completedAt: number;
+}
+
+// --- Study protocol ---
+
+// Overrides DEFAULT_ADAPTATION_POLICY; conditionActions is keyed by combination ID
+export type ProtocolAdaptationSpec = Partial<AdaptationPolicyConfig> & {
+  conditionActions?: Record<string, AdaptationAction[]>;
+};
+
+// conditionModes is keyed by combination ID and overrides mode
+export interface ProtocolCaptionSpec {
+  mode?: CaptionMode;
+  conditionModes?: Record<string, CaptionMode>;
+}
+
+export interface ProtocolConditionSpec {
+  combinationId: number;
+  topic: string;
+}
+
+export type ProtocolPhase =
+  | { type: 'consent' }
+  | { type: 'welcome'; title?: string; description?: string }
+  | { type: 'calibration'; config?: Partial<CalibrationConfig> }
+  | { type: 'practice'; topic: string; combinationId: number; captions?: CaptionMode }
+  | {
+      type: 'lessons';
+      counterbalancing?: CounterbalancingMethod; // Default 'latin-square'
+      conditions?: ProtocolConditionSpec[]; // Required for 'fixed'
+      topics?: string[]; // Topic pool for counterbalanced schedules
+      questionnaires?: string[]; // Instrument IDs after each lesson
+      tlxWeighting?: boolean;
+      preTest?: boolean; // Parallel-form knowledge test before each lesson
+      resumeFromSentence?: boolean; // Replay the interrupted sentence after an interruption
+      adaptation?: ProtocolAdaptationSpec;
+      captions?: ProtocolCaptionSpec;
+    }
+  | { type: 'questionnaire'; questionnaires: string[]; tlxWeighting?: boolean }
+  | { type: 'break'; durationMs?: number; message?: string }
+  | { type: 'debrief'; message?: string };
+
+export type ProtocolPhaseType = ProtocolPhase['type'];
+
+// Live event markers to a local acquisition bridge (see utils/markerStream.ts)
+export interface MarkerStreamConfig {
+  url?: string; // Defaults to ws://localhost:8765
+  codes?: Record<string, number>; // Event type -> marker code, merged over the defaults
+  clockSync?: boolean | { rounds?: number; intervalMs?: number }; // Handshake with the recorder clock via the bridge
+}
+
+export type SyntheticWorkloadPattern = 'sinusoid' | 'step' | 'random-walk' | 'event-keyed';
+
+// Stand-in for the classifier during development (see utils/workloadSources.ts)
+export interface SyntheticWorkloadConfig {
+  source: 'synthetic';
+  pattern: SyntheticWorkloadPattern;
+  sampleRateHz?: number; // Default 4
+  baseline?: number; // Default 0.5
+  amplitude?: number; // sinusoid; default 0.3
+  periodMs?: number; // sinusoid; default 60000
+  stepTo?: number; // step; default 0.85
+  stepAtMs?: number; // step; default 30000
+  stepEndMs?: number; // step; back to baseline from here, if set
+  stepSize?: number; // random-walk; default 0.05 per sample
+  events?: Record<string, number>; // event-keyed: logged event type -> workload it jumps to
+  decayMs?: number; // event-keyed; time constant of the return to baseline, default 10000
+  noise?: number; // Gaussian noise SD added to every pattern; default 0
+}
+
+// Source of live workload estimates (see utils/workloadSignal.ts)
+export type WorkloadSignalConfig =
+  | { source: 'websocket'; url?: string } // Defaults to ws://localhost:8766
+  | SyntheticWorkloadConfig
+  | { source: 'replay'; url: string; loop?: boolean }; // Recorded CSV/JSON signal, played with its original timing
+
+// Passive behavioural telemetry (see utils/behaviourTelemetry.ts)
+export interface BehaviourTelemetryConfig {
+  enabled: boolean;
+  windowMs: number; // Aggregation window
+  mouseSampleHz: number; // Mouse positions are sampled at most this often
+  idleThresholdMs: number; // No input for longer than this counts as idle
+}
+
+export interface StudyProtocol {
+  id: string;
+  version: string;
+  title?: string;
+  questionnaireDefinitions?: QuestionnaireDefinition[]; // Custom instruments, registered on load
+  markerStream?: MarkerStreamConfig; // Omit to disable marker output
+  workloadSignal?: WorkloadSignalConfig; // Omit when no classifier is running
+  behaviourTelemetry?: Partial<BehaviourTelemetryConfig> | false; // On with defaults unless false
+  contentPacks?: string[]; // Pack URLs; defaults to the core pack
+  offline?: Partial<OfflineConfig>; // Present = no API calls; all stimuli must be in the packs
+  provider?: GenerationProviderConfig; // Defaults to Gemini
+  answerPolicy?: Partial<AnswerPolicy>;
+  retention?: { minDelayMs?: number }; // Delayed retention test on a later visit (see utils/protocol.ts)
+  phases: ProtocolPhase[];
 }
 
-export interface NasaTlxResult {
-  mentalDemand: number;
-  performance: number;
-  effort: number;
-  frustration: number;
+// Stamped into every session log
+export interface ProtocolStamp {
+  protocolId: string;
+  protocolVersion: string;
+  phaseIndex: number;
+  phaseType: ProtocolPhaseType;
 }
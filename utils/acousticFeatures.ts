@@ -0,0 +1,166 @@
+import { getAudioContext } from './audio';
+
+// Acoustic correlates of cognitive load, computed locally from the learner's
+// recorded question. Nothing here is sent to the API.
+
+export interface AcousticFeatures {
+  recordingDurationMs: number;
+  recorderStartDelayMs?: number; // Interrupt press -> MediaRecorder start
+  speechOnsetMs: number | null; // Recording start -> first voiced frame
+  speechDurationMs: number; // First to last voiced frame
+  pauseRatio: number; // Unvoiced share of the speech span
+  pauseCount: number; // Silences of at least MIN_PAUSE_MS within the speech span
+  pitchMeanHz: number | null;
+  pitchSdHz: number | null;
+  pitchMinHz: number | null;
+  pitchMaxHz: number | null;
+  energyMeanDb: number | null; // dBFS over voiced frames
+  energySdDb: number | null;
+  energyMaxDb: number | null;
+  noiseFloorDb: number;
+}
+
+const TARGET_RATE = 16000;
+const FRAME_MS = 25;
+const HOP_MS = 10;
+const PITCH_WINDOW_MS = 40; // Covers at least three periods at the lowest pitch
+const MIN_PITCH_HZ = 75;
+const MAX_PITCH_HZ = 400;
+const VOICING_THRESHOLD = 0.5; // Normalised autocorrelation peak
+const SPEECH_ABOVE_NOISE_DB = 10;
+const MIN_SPEECH_DB = -50;
+const MIN_PAUSE_MS = 200;
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+const sd = (values: number[]) => {
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / values.length);
+};
+
+// Mono mix, box-filtered down to TARGET_RATE
+const toMono16k = (channels: Float32Array[], sampleRate: number): Float32Array => {
+  const mono = new Float32Array(channels[0].length);
+  channels.forEach(data => {
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / channels.length;
+  });
+  const ratio = sampleRate / TARGET_RATE;
+  if (ratio <= 1) return mono;
+  const out = new Float32Array(Math.floor(mono.length / ratio));
+  for (let i = 0; i < out.length; i++) {
+    const start = Math.floor(i * ratio);
+    const end = Math.min(mono.length, Math.floor((i + 1) * ratio));
+    let sum = 0;
+    for (let j = start; j < end; j++) sum += mono[j];
+    out[i] = sum / Math.max(1, end - start);
+  }
+  return out;
+};
+
+const frameEnergyDb = (samples: Float32Array, start: number, length: number) => {
+  let sum = 0;
+  const end = Math.min(samples.length, start + length);
+  for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+  const rms = Math.sqrt(sum / Math.max(1, end - start));
+  return 20 * Math.log10(rms + 1e-10);
+};
+
+// Autocorrelation pitch estimate; null for unvoiced frames
+const framePitchHz = (samples: Float32Array, start: number, length: number, rate: number): number | null => {
+  if (start + length > samples.length) return null;
+  const minLag = Math.floor(rate / MAX_PITCH_HZ);
+  const maxLag = Math.ceil(rate / MIN_PITCH_HZ);
+  let energy = 0;
+  for (let i = start; i < start + length; i++) energy += samples[i] * samples[i];
+  if (energy === 0) return null;
+
+  let bestLag = 0;
+  let bestCorr = 0;
+  for (let lag = minLag; lag <= maxLag && lag < length; lag++) {
+    let corr = 0;
+    for (let i = start; i < start + length - lag; i++) corr += samples[i] * samples[i + lag];
+    const normalised = corr / energy;
+    if (normalised > bestCorr) {
+      bestCorr = normalised;
+      bestLag = lag;
+    }
+  }
+  return bestCorr >= VOICING_THRESHOLD && bestLag > 0 ? rate / bestLag : null;
+};
+
+export const extractAcousticFeatures = async (blob: Blob, recorderStartDelayMs?: number): Promise<AcousticFeatures> => {
+  const buffer = await getAudioContext().decodeAudioData(await blob.arrayBuffer());
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  return analyseRecording(channels, buffer.sampleRate, recorderStartDelayMs);
+};
+
+export const analyseRecording = (channels: Float32Array[], sampleRate: number, recorderStartDelayMs?: number): AcousticFeatures => {
+  const samples = toMono16k(channels, sampleRate);
+  const rate = Math.min(TARGET_RATE, sampleRate);
+  const frameLength = Math.round((FRAME_MS / 1000) * rate);
+  const hop = Math.round((HOP_MS / 1000) * rate);
+  const pitchLength = Math.round((PITCH_WINDOW_MS / 1000) * rate);
+
+  const energies: number[] = [];
+  for (let start = 0; start + frameLength <= samples.length; start += hop) {
+    energies.push(frameEnergyDb(samples, start, frameLength));
+  }
+
+  // Noise floor as the 10th percentile of frame energy
+  const sorted = [...energies].sort((a, b) => a - b);
+  const noiseFloorDb = sorted.length ? sorted[Math.floor(sorted.length * 0.1)] : MIN_SPEECH_DB;
+  const speechThreshold = Math.max(MIN_SPEECH_DB, noiseFloorDb + SPEECH_ABOVE_NOISE_DB);
+  const voiced = energies.map(e => e >= speechThreshold);
+
+  const first = voiced.indexOf(true);
+  const last = voiced.lastIndexOf(true);
+  const recordingDurationMs = (samples.length / rate) * 1000;
+
+  if (first === -1) {
+    return {
+      recordingDurationMs, recorderStartDelayMs, speechOnsetMs: null, speechDurationMs: 0, pauseRatio: 0, pauseCount: 0,
+      pitchMeanHz: null, pitchSdHz: null, pitchMinHz: null, pitchMaxHz: null,
+      energyMeanDb: null, energySdDb: null, energyMaxDb: null, noiseFloorDb
+    };
+  }
+
+  // Pauses inside the speech span
+  let unvoiced = 0;
+  let pauseCount = 0;
+  let run = 0;
+  for (let i = first; i <= last; i++) {
+    if (!voiced[i]) {
+      unvoiced++;
+      run++;
+    } else {
+      if (run * HOP_MS >= MIN_PAUSE_MS) pauseCount++;
+      run = 0;
+    }
+  }
+
+  const voicedEnergies: number[] = [];
+  const pitches: number[] = [];
+  for (let i = first; i <= last; i++) {
+    if (!voiced[i]) continue;
+    voicedEnergies.push(energies[i]);
+    const pitch = framePitchHz(samples, i * hop, pitchLength, rate);
+    if (pitch !== null) pitches.push(pitch);
+  }
+
+  const round = (value: number) => Math.round(value * 10) / 10;
+  return {
+    recordingDurationMs: round(recordingDurationMs),
+    recorderStartDelayMs,
+    speechOnsetMs: first * HOP_MS,
+    speechDurationMs: (last - first) * HOP_MS + FRAME_MS,
+    pauseRatio: unvoiced / (last - first + 1),
+    pauseCount,
+    pitchMeanHz: pitches.length ? round(mean(pitches)) : null,
+    pitchSdHz: pitches.length ? round(sd(pitches)) : null,
+    pitchMinHz: pitches.length ? round(Math.min(...pitches)) : null,
+    pitchMaxHz: pitches.length ? round(Math.max(...pitches)) : null,
+    energyMeanDb: round(mean(voicedEnergies)),
+    energySdDb: round(sd(voicedEnergies)),
+    energyMaxDb: round(Math.max(...voicedEnergies)),
+    noiseFloorDb: round(noiseFloorDb)
+  };
+};
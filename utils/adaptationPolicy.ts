@@ -0,0 +1,141 @@
+import { AdaptationAction, AdaptationDecision, AdaptationDecisionAction, AdaptationPolicyConfig, AdaptationTrigger, ProtocolAdaptationSpec, TutoringComplexity } from '../types';
+import { getAllSessions, getSessionsForParticipant } from './studyStorage';
+
+export const ADAPTATION_ACTIONS: AdaptationAction[] = ['slow_down', 'simplify', 'recap', 'pause', 'question_prompt'];
+
+export const DEFAULT_ADAPTATION_POLICY: AdaptationPolicyConfig = {
+  mode: 'off',
+  highThreshold: 0.7,
+  lowThreshold: 0.5,
+  minDwellMs: 5000,
+  allowedActions: ['slow_down', 'recap', 'pause'],
+  slowdownFactor: 0.85,
+  recapMs: 15000,
+  pauseDurationMs: 8000
+};
+
+// Actions that stay in effect once applied; the others can repeat
+const PERSISTENT_ACTIONS: AdaptationAction[] = ['slow_down', 'simplify'];
+
+// Merges the protocol's settings over the defaults for one condition.
+// 'simplify' is dropped for conditions that are already SIMPLE.
+export const resolveAdaptationPolicy = (
+  spec: ProtocolAdaptationSpec | undefined,
+  combinationId: number,
+  complexity: TutoringComplexity
+): AdaptationPolicyConfig => {
+  const { conditionActions, ...overrides } = spec ?? {};
+  const policy = { ...DEFAULT_ADAPTATION_POLICY, ...overrides };
+  const actions = conditionActions?.[String(combinationId)] ?? policy.allowedActions;
+  return {
+    ...policy,
+    allowedActions: actions.filter(a => a !== 'simplify' || complexity === TutoringComplexity.COMPLEX)
+  };
+};
+
+// Threshold policy with hysteresis. Overload starts at highThreshold and ends at
+// lowThreshold; a state must hold for minDwellMs before it triggers anything,
+// and adaptations are at least minDwellMs apart.
+export class AdaptationEngine {
+  private workloadState: 'normal' | 'high' = 'normal';
+  private stateSince: number | null = null;
+  private lastDecisionAt = -Infinity;
+  private nextActionIndex = 0;
+  private active = new Set<AdaptationAction>();
+
+  constructor(private readonly policy: AdaptationPolicyConfig) {}
+
+  public evaluate(workload: number, now: number): { action: AdaptationDecisionAction; trigger: AdaptationTrigger } | null {
+    if (this.stateSince === null) this.stateSince = now;
+    if (this.workloadState === 'normal' && workload >= this.policy.highThreshold) {
+      this.workloadState = 'high';
+      this.stateSince = now;
+    } else if (this.workloadState === 'high' && workload <= this.policy.lowThreshold) {
+      this.workloadState = 'normal';
+      this.stateSince = now;
+    }
+
+    const dwellMs = now - this.stateSince;
+    if (dwellMs < this.policy.minDwellMs || now - this.lastDecisionAt < this.policy.minDwellMs) return null;
+
+    const action = this.workloadState === 'high' ? this.nextAction()
+      : this.active.has('slow_down') ? 'restore_pace'
+      : null;
+    if (!action) return null;
+
+    if (action === 'restore_pace') this.active.delete('slow_down');
+    else if (PERSISTENT_ACTIONS.includes(action)) this.active.add(action);
+    this.lastDecisionAt = now;
+
+    return {
+      action,
+      trigger: {
+        kind: 'workload',
+        workload,
+        workloadState: this.workloadState,
+        threshold: this.workloadState === 'high' ? this.policy.highThreshold : this.policy.lowThreshold,
+        dwellMs
+      }
+    };
+  }
+
+  // Round-robin over the allowed actions, skipping persistent ones already in effect
+  private nextAction(): AdaptationAction | null {
+    const actions = this.policy.allowedActions;
+    for (let i = 0; i < actions.length; i++) {
+      const action = actions[(this.nextActionIndex + i) % actions.length];
+      if (!this.active.has(action)) {
+        this.nextActionIndex = (this.nextActionIndex + i + 1) % actions.length;
+        return action;
+      }
+    }
+    return null;
+  }
+}
+
+export interface YokedSchedule {
+  sourceSessionId: string;
+  sourceParticipantId: string;
+  decisions: AdaptationDecision[];
+}
+
+// Latest stored adaptive session of the same condition from another participant
+// (or from yokedParticipantId, if given)
+export const findYokedSchedule = async (
+  participantId: string,
+  combinationId: number,
+  yokedParticipantId?: string
+): Promise<YokedSchedule | null> => {
+  const sessions = yokedParticipantId ? await getSessionsForParticipant(yokedParticipantId) : await getAllSessions();
+  const source = sessions
+    .filter(s => s.participantId !== participantId && s.sessionType === 'tutoring' &&
+      s.config?.combinationId === combinationId && s.config.adaptation?.mode === 'adaptive' && s.adaptations)
+    .sort((a, b) => b.startTime - a.startTime)[0];
+  if (!source) return null;
+  return { sourceSessionId: source.sessionId, sourceParticipantId: source.participantId, decisions: source.adaptations! };
+};
+
+// Replays a yoked schedule by lesson position rather than wall-clock time,
+// so interruptions do not shift it
+export class YokedReplay {
+  private nextIndex = 0;
+
+  constructor(private readonly schedule: YokedSchedule) {}
+
+  public due(progressMs: number): { action: AdaptationDecisionAction; trigger: AdaptationTrigger }[] {
+    const due = [];
+    while (this.nextIndex < this.schedule.decisions.length && this.schedule.decisions[this.nextIndex].progressMs <= progressMs) {
+      const original = this.schedule.decisions[this.nextIndex++];
+      due.push({
+        action: original.action,
+        trigger: {
+          kind: 'yoked' as const,
+          sourceSessionId: this.schedule.sourceSessionId,
+          sourceParticipantId: this.schedule.sourceParticipantId,
+          sourceTimestampRelative: original.timestampRelative
+        }
+      });
+    }
+    return due;
+  }
+}
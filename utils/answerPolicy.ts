@@ -0,0 +1,32 @@
+import { AnswerPolicy } from '../types';
+import type { SegmentInfo } from './audio';
+import { buildCaptionTimeline } from './captions';
+
+// Interruption answers are given the lesson heard so far, the earlier questions
+// and the condition's language level. The policy is set by the protocol's
+// "answerPolicy" field.
+
+export const DEFAULT_ANSWER_POLICY: AnswerPolicy = {
+  maxWords: 20,
+  avoidSpoilers: true,
+  historyTurns: 3
+};
+
+let activePolicy: AnswerPolicy = DEFAULT_ANSWER_POLICY;
+
+export const configureAnswerPolicy = (policy?: Partial<AnswerPolicy>) => {
+  activePolicy = { ...DEFAULT_ANSWER_POLICY, ...policy };
+};
+
+export const getAnswerPolicy = (): AnswerPolicy => activePolicy;
+
+// Splits the lesson at the playback position. The sentence being heard counts
+// as heard; for a single-segment lesson its position is estimated (see captions.ts).
+export const splitLessonAt = (segments: SegmentInfo[], progressMs: number): { heardText: string; upcomingText: string } => {
+  const sentences = buildCaptionTimeline(segments);
+  const heard = sentences.filter((s, i) => i === 0 || s.startMs <= progressMs);
+  return {
+    heardText: heard.map(s => s.text).join(' '),
+    upcomingText: sentences.slice(heard.length).map(s => s.text).join(' ')
+  };
+};
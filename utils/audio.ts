@@ -1,3 +1,5 @@
+import { LessonSegmentAudio } from '../types';
+
 export const decodeAudioData = async (
   base64String: string,
   audioContext: AudioContext
@@ -35,6 +37,30 @@ export const decodeAudioData = async (
   return buffer;
 };
 
+// Inverse of the decoding above, for providers that return raw PCM bytes
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const CHUNK = 0x8000; // Stay under the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return btoa(binary);
+};
+
+// One context for all players, so AudioContext.currentTime is a single clock
+// that can be logged next to performance.now()
+let sharedContext: AudioContext | null = null;
+
+export const getAudioContext = (): AudioContext => {
+  if (!sharedContext) {
+    sharedContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+  }
+  return sharedContext;
+};
+
+// Null until the first player has been created (no context is created just for logging)
+export const getAudioClockTime = (): number | null => sharedContext ? sharedContext.currentTime : null;
+
 export class AudioPlayer {
   private audioContext: AudioContext;
   private source: AudioBufferSourceNode | null = null;
@@ -47,7 +73,7 @@ export class AudioPlayer {
   public analyser: AnalyserNode;
 
   constructor(rate: number = 1.0) {
-    this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    this.audioContext = getAudioContext();
     this.playbackRate = rate;
     this.analyser = this.audioContext.createAnalyser();
     this.analyser.fftSize = 256; // Good balance for visualizer
@@ -80,9 +106,11 @@ export class AudioPlayer {
     this.startTime = this.audioContext.currentTime;
     this.isPlaying = true;
 
-    this.source.onended = () => {
-      // Only trigger if naturally ended, not manually stopped/paused
-      if (this.isPlaying) {
+    // Only trigger if naturally ended, not manually stopped/paused. Bound to its
+    // node: after a seek, the old source's ended event arrives once playing again.
+    const source = this.source;
+    source.onended = () => {
+      if (this.source === source && this.isPlaying) {
         this.isPlaying = false;
         this.pausedAt = 0;
         if (this.onEndedCallback) this.onEndedCallback();
@@ -114,6 +142,29 @@ export class AudioPlayer {
     }
   }
 
+  // Takes effect immediately; the position is carried over at the old rate
+  setPlaybackRate(rate: number) {
+    if (this.source && this.isPlaying) {
+      const now = this.audioContext.currentTime;
+      this.pausedAt += (now - this.startTime) * this.playbackRate;
+      this.startTime = now;
+      this.source.playbackRate.value = rate;
+    }
+    this.playbackRate = rate;
+  }
+
+  getPlaybackRate(): number {
+    return this.playbackRate;
+  }
+
+  // Jumps to a position (seconds), continuing playback if it was playing
+  seek(seconds: number) {
+    const wasPlaying = this.isPlaying;
+    this.pause();
+    this.pausedAt = Math.max(0, Math.min(seconds, this.getDuration()));
+    if (wasPlaying) this.play(this.onEndedCallback || undefined);
+  }
+
   getFrequencyData(): Uint8Array {
     const dataArray = new Uint8Array(this.analyser.frequencyBinCount);
     this.analyser.getByteFrequencyData(dataArray);
@@ -133,4 +184,131 @@ export class AudioPlayer {
   getDuration(): number {
       return this.buffer ? this.buffer.duration : 0;
   }
-}
\ No newline at end of file
+}
+
+export interface SegmentInfo {
+  index: number;
+  text: string;
+  startMs: number; // On the lesson timeline (audio time, unaffected by playback rate)
+  durationMs: number;
+}
+
+export type SegmentEventType = 'start' | 'end';
+
+// Plays the lesson's segments back to back, one AudioPlayer each, and exposes
+// the same controls as AudioPlayer over the joined timeline. `onSegment` fires
+// when a segment starts from its beginning and when it plays to its end.
+export class SegmentedAudioPlayer {
+  private players: AudioPlayer[] = [];
+  private segments: SegmentInfo[] = [];
+  private current = 0;
+  private isPlaying = false;
+  private playbackRate: number;
+  private onEndedCallback: (() => void) | null = null;
+
+  constructor(rate: number = 1.0, private readonly onSegment?: (type: SegmentEventType, segment: SegmentInfo) => void) {
+    this.playbackRate = rate;
+  }
+
+  async loadSegments(segments: LessonSegmentAudio[]) {
+    const players = segments.map(() => new AudioPlayer(this.playbackRate));
+    await Promise.all(players.map((player, i) => player.loadAudio(segments[i].audioBase64)));
+    let startMs = 0;
+    this.segments = segments.map((segment, index) => {
+      const durationMs = players[index].getDuration() * 1000;
+      const info = { index, text: segment.text, startMs, durationMs };
+      startMs += durationMs;
+      return info;
+    });
+    this.players = players;
+    this.current = 0;
+  }
+
+  async play(onEnded?: () => void) {
+    if (this.players.length === 0) return;
+    this.onEndedCallback = onEnded || null;
+    this.isPlaying = true;
+    await this.playCurrent();
+  }
+
+  private async playCurrent() {
+    const index = this.current;
+    const player = this.players[index];
+    if (player.getCurrentTime() === 0) this.onSegment?.('start', this.segments[index]);
+    await player.play(() => {
+      this.onSegment?.('end', this.segments[index]);
+      if (index < this.players.length - 1) {
+        this.current = index + 1;
+        this.playCurrent();
+      } else {
+        this.isPlaying = false;
+        this.current = 0;
+        if (this.onEndedCallback) this.onEndedCallback();
+      }
+    });
+  }
+
+  pause() {
+    if (!this.isPlaying) return;
+    this.isPlaying = false;
+    this.players[this.current].pause();
+  }
+
+  stop() {
+    this.isPlaying = false;
+    this.players.forEach(player => {
+      player.stop();
+      player.seek(0);
+    });
+    this.current = 0;
+  }
+
+  setPlaybackRate(rate: number) {
+    this.players.forEach(player => player.setPlaybackRate(rate));
+    this.playbackRate = rate;
+  }
+
+  getPlaybackRate(): number {
+    return this.playbackRate;
+  }
+
+  // Jumps to a position (seconds) on the lesson timeline, continuing playback if it was playing
+  seek(seconds: number) {
+    const wasPlaying = this.isPlaying;
+    this.pause();
+    const target = this.getSegmentAt(Math.max(0, Math.min(seconds, this.getDuration())));
+    if (!target) return;
+    this.players[this.current].seek(0);
+    this.current = target.index;
+    this.players[target.index].seek(seconds - target.startMs / 1000);
+    if (wasPlaying) this.play(this.onEndedCallback || undefined);
+  }
+
+  getFrequencyData(): Uint8Array {
+    return this.players[this.current]?.getFrequencyData() ?? new Uint8Array(0);
+  }
+
+  getCurrentTime(): number {
+    const segment = this.segments[this.current];
+    return segment ? segment.startMs / 1000 + this.players[this.current].getCurrentTime() : 0;
+  }
+
+  getDuration(): number {
+    const last = this.segments[this.segments.length - 1];
+    return last ? (last.startMs + last.durationMs) / 1000 : 0;
+  }
+
+  getSegments(): SegmentInfo[] {
+    return [...this.segments];
+  }
+
+  getCurrentSegment(): SegmentInfo | null {
+    return this.segments[this.current] ?? null;
+  }
+
+  // The segment playing at a position (seconds); the last one at or past the end
+  getSegmentAt(seconds: number): SegmentInfo | null {
+    const ms = seconds * 1000;
+    return this.segments.find(s => ms < s.startMs + s.durationMs) ?? this.segments[this.segments.length - 1] ?? null;
+  }
+}
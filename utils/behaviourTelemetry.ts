@@ -0,0 +1,189 @@
+import { BehaviourTelemetryConfig } from '../types';
+import { logger } from './eventLogger';
+
+// Passive behavioural telemetry while the lesson plays, aggregated into fixed
+// windows as secondary workload indicators. Only counts and distances are kept
+// (no key identities or cursor paths).
+
+export const DEFAULT_TELEMETRY_CONFIG: BehaviourTelemetryConfig = {
+  enabled: true,
+  windowMs: 5000,
+  mouseSampleHz: 20,
+  idleThresholdMs: 3000
+};
+
+export interface BehaviourWindow {
+  timestampRelative: number; // Window start, relative to session start (like events)
+  startPerfTime: number;
+  durationMs: number; // Shorter than windowMs for the last window of a playing stretch
+  mouseSamples: number;
+  mouseDistancePx: number;
+  meanMouseSpeedPxS: number;
+  keyPresses: number;
+  idleMs: number; // Time beyond idleThresholdMs without mouse or key input
+  idlePeriodsEnded: number;
+  idleAtEnd: boolean;
+  hiddenMs: number; // Tab not visible
+  visibilityLosses: number;
+  focusLosses: number;
+  resizes: number;
+  fullscreenExits: number;
+}
+
+type Counters = Omit<BehaviourWindow, 'timestampRelative' | 'startPerfTime' | 'durationMs' | 'meanMouseSpeedPxS' | 'idleAtEnd'>;
+
+const emptyCounters = (): Counters => ({
+  mouseSamples: 0,
+  mouseDistancePx: 0,
+  keyPresses: 0,
+  idleMs: 0,
+  idlePeriodsEnded: 0,
+  hiddenMs: 0,
+  visibilityLosses: 0,
+  focusLosses: 0,
+  resizes: 0,
+  fullscreenExits: 0
+});
+
+class BehaviourTelemetry {
+  private static instance: BehaviourTelemetry;
+  private config: BehaviourTelemetryConfig = DEFAULT_TELEMETRY_CONFIG;
+  private running = false;
+  private windowStart = 0;
+  private counters = emptyCounters();
+  private lastInputAt = 0;
+  private lastMouse: { x: number; y: number; t: number } | null = null;
+  private hiddenSince: number | null = null;
+  private flushTimer: number | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): BehaviourTelemetry {
+    if (!BehaviourTelemetry.instance) {
+      BehaviourTelemetry.instance = new BehaviourTelemetry();
+    }
+    return BehaviourTelemetry.instance;
+  }
+
+  public configure(config?: Partial<BehaviourTelemetryConfig> | false) {
+    this.config = config === false ? { ...DEFAULT_TELEMETRY_CONFIG, enabled: false } : { ...DEFAULT_TELEMETRY_CONFIG, ...config };
+  }
+
+  public start() {
+    if (this.running || !this.config.enabled) return;
+    this.running = true;
+    const now = performance.now();
+    this.windowStart = now;
+    this.lastInputAt = now;
+    this.lastMouse = null;
+    this.hiddenSince = document.hidden ? now : null;
+    this.counters = emptyCounters();
+
+    window.addEventListener('mousemove', this.handleMouseMove);
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('blur', this.handleBlur);
+    window.addEventListener('resize', this.handleResize);
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    document.addEventListener('fullscreenchange', this.handleFullscreenChange);
+    this.flushTimer = window.setInterval(() => this.flush(), this.config.windowMs);
+  }
+
+  // Flushes the partial window, so nothing recorded is lost
+  public stop() {
+    if (!this.running) return;
+    this.flush();
+    this.running = false;
+    window.removeEventListener('mousemove', this.handleMouseMove);
+    window.removeEventListener('keydown', this.handleKeyDown);
+    window.removeEventListener('blur', this.handleBlur);
+    window.removeEventListener('resize', this.handleResize);
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    document.removeEventListener('fullscreenchange', this.handleFullscreenChange);
+    if (this.flushTimer !== null) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  // Part of [from, to] that falls inside the current window
+  private overlap(from: number, to: number) {
+    return Math.max(0, to - Math.max(from, this.windowStart));
+  }
+
+  private registerInput(now: number) {
+    const idleFrom = this.lastInputAt + this.config.idleThresholdMs;
+    if (now > idleFrom) {
+      this.counters.idleMs += this.overlap(idleFrom, now);
+      this.counters.idlePeriodsEnded++;
+    }
+    this.lastInputAt = now;
+  }
+
+  private handleMouseMove = (e: MouseEvent) => {
+    const now = performance.now();
+    if (this.lastMouse && now - this.lastMouse.t < 1000 / this.config.mouseSampleHz) return;
+    this.registerInput(now);
+    if (this.lastMouse) {
+      this.counters.mouseDistancePx += Math.hypot(e.clientX - this.lastMouse.x, e.clientY - this.lastMouse.y);
+    }
+    this.counters.mouseSamples++;
+    this.lastMouse = { x: e.clientX, y: e.clientY, t: now };
+  };
+
+  private handleKeyDown = () => {
+    this.registerInput(performance.now());
+    this.counters.keyPresses++;
+  };
+
+  private handleBlur = () => {
+    this.counters.focusLosses++;
+  };
+
+  private handleResize = () => {
+    this.counters.resizes++;
+  };
+
+  private handleVisibilityChange = () => {
+    const now = performance.now();
+    if (document.hidden) {
+      this.hiddenSince = now;
+      this.counters.visibilityLosses++;
+      logger.log('tab_hidden');
+    } else {
+      if (this.hiddenSince !== null) this.counters.hiddenMs += this.overlap(this.hiddenSince, now);
+      this.hiddenSince = null;
+      logger.log('tab_visible');
+    }
+  };
+
+  private handleFullscreenChange = () => {
+    if (!document.fullscreenElement) {
+      this.counters.fullscreenExits++;
+      logger.log('fullscreen_exit');
+    }
+  };
+
+  private flush() {
+    const now = performance.now();
+    const durationMs = now - this.windowStart;
+    if (durationMs <= 0) return;
+
+    const idleFrom = this.lastInputAt + this.config.idleThresholdMs;
+    const idleAtEnd = now > idleFrom;
+    if (idleAtEnd) this.counters.idleMs += this.overlap(idleFrom, now);
+    if (this.hiddenSince !== null) this.counters.hiddenMs += this.overlap(this.hiddenSince, now);
+
+    logger.recordBehaviourWindow({
+      ...this.counters,
+      startPerfTime: this.windowStart,
+      durationMs,
+      meanMouseSpeedPxS: this.counters.mouseDistancePx / (durationMs / 1000),
+      idleAtEnd
+    });
+
+    this.windowStart = now;
+    this.counters = emptyCounters();
+  }
+}
+
+export const behaviourTelemetry = BehaviourTelemetry.getInstance();
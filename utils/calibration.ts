@@ -0,0 +1,120 @@
+import { CalibrationConfig, CalibrationTrial, WorkloadCondition, ArithmeticDifficulty, ArithmeticResponse, ArithmeticResponseMode, ArithmeticTrialResult } from '../types';
+
+export const DEFAULT_CALIBRATION_CONFIG: CalibrationConfig = {
+  trialCount: 20,
+  restDurationMs: 20000,
+  taskDurationMs: 20000,
+  interTrialIntervalMs: 4000,
+  interTrialJitterMs: 2000,
+  ordering: 'alternating',
+  startWith: WorkloadCondition.LOW,
+  responseMode: 'none',
+  finalResponseTimeoutMs: 10000,
+  arithmetic: {
+    startMin: 200,
+    startMax: 1200,
+    stepMin: 6,
+    stepMax: 19,
+    excludedSteps: [10, 15]
+  }
+};
+
+const otherCondition = (condition: WorkloadCondition) =>
+  condition === WorkloadCondition.LOW ? WorkloadCondition.HIGH : WorkloadCondition.LOW;
+
+const buildConditionOrder = (config: CalibrationConfig): WorkloadCondition[] => {
+  if (config.sequence && config.sequence.length > 0) return config.sequence;
+
+  const { trialCount, startWith } = config;
+  const firstHalf = Math.ceil(trialCount / 2);
+
+  switch (config.ordering) {
+    case 'blocked':
+      return Array.from({ length: trialCount }, (_, i) => i < firstHalf ? startWith : otherCondition(startWith));
+    case 'randomized': {
+      // Equal numbers of each condition (protocols must give an even trialCount), Fisher-Yates shuffled
+      const order = Array.from({ length: trialCount }, (_, i) => i % 2 === 0 ? WorkloadCondition.LOW : WorkloadCondition.HIGH);
+      for (let i = order.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+      }
+      return order;
+    }
+    case 'alternating':
+    default:
+      return Array.from({ length: trialCount }, (_, i) => i % 2 === 0 ? startWith : otherCondition(startWith));
+  }
+};
+
+// Resolves the config into the concrete list of trials, including the jittered
+// inter-trial interval, so the exact sequence can be logged before the block starts.
+export const buildCalibrationTrials = (config: CalibrationConfig): CalibrationTrial[] =>
+  buildConditionOrder(config).map((condition, index) => ({
+    index,
+    condition,
+    durationMs: condition === WorkloadCondition.HIGH ? config.taskDurationMs : config.restDurationMs,
+    interTrialIntervalMs: config.interTrialIntervalMs + Math.round(Math.random() * config.interTrialJitterMs)
+  }));
+
+const randomInt = (min: number, max: number) => Math.floor(Math.random() * (max - min + 1)) + min;
+
+export const allowedArithmeticSteps = (difficulty: ArithmeticDifficulty): number[] =>
+  Array.from({ length: Math.max(0, difficulty.stepMax - difficulty.stepMin + 1) }, (_, i) => difficulty.stepMin + i)
+    .filter(step => !difficulty.excludedSteps.includes(step));
+
+export const generateArithmeticProblem = (difficulty: ArithmeticDifficulty): { current: number; step: number } => {
+  const start = randomInt(difficulty.startMin, difficulty.startMax);
+  const allowedSteps = allowedArithmeticSteps(difficulty);
+  if (allowedSteps.length === 0) {
+    throw new Error(`No arithmetic step available in range ${difficulty.stepMin}-${difficulty.stepMax} after exclusions.`);
+  }
+  return { current: start, step: allowedSteps[randomInt(0, allowedSteps.length - 1)] };
+};
+
+// Serial-subtraction scoring.
+// 'intermediate': each response is correct if it equals the previous response minus the step,
+// so a single slip is counted once rather than invalidating the rest of the chain.
+// 'final': the single response is correct if it lies on the start - k*step sequence (k >= 1).
+export const scoreArithmeticTrial = (
+  trialIndex: number,
+  responseMode: ArithmeticResponseMode,
+  startNumber: number,
+  step: number,
+  entries: { value: number; latencyMs: number }[]
+): ArithmeticTrialResult => {
+  let responses: ArithmeticResponse[];
+  let subtractionCount: number;
+
+  if (responseMode === 'final') {
+    responses = entries.slice(0, 1).map(entry => {
+      const implied = Math.max(1, Math.round((startNumber - entry.value) / step));
+      const expected = startNumber - implied * step;
+      return { ...entry, interResponseMs: entry.latencyMs, expected, isCorrect: entry.value === expected };
+    });
+    subtractionCount = responses.length > 0 ? Math.max(0, Math.round((startNumber - responses[0].value) / step)) : 0;
+  } else {
+    responses = entries.map((entry, i) => {
+      const previous = i === 0 ? startNumber : entries[i - 1].value;
+      return {
+        ...entry,
+        interResponseMs: entry.latencyMs - (i === 0 ? 0 : entries[i - 1].latencyMs),
+        expected: previous - step,
+        isCorrect: entry.value === previous - step
+      };
+    });
+    subtractionCount = responses.length;
+  }
+
+  const correctCount = responses.filter(r => r.isCorrect).length;
+  return {
+    trialIndex,
+    responseMode,
+    startNumber,
+    step,
+    responses,
+    subtractionCount,
+    correctCount,
+    accuracy: responses.length > 0 ? correctCount / responses.length : null,
+    ...(responseMode === 'final' && responses.length > 0 && { finalValue: responses[0].value })
+  };
+};
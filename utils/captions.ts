@@ -0,0 +1,51 @@
+import { CaptionMode, ProtocolCaptionSpec } from '../types';
+import type { SegmentInfo } from './audio';
+import { splitSentences } from './sentences';
+
+// Caption timing for the lesson. TTS returns no word timestamps, so within each
+// audio segment sentences and words are timed by their share of its characters.
+// Times are on the player's timeline, which already accounts for the playback rate.
+
+export const CAPTION_MODES: CaptionMode[] = ['none', 'full', 'sentence', 'word'];
+
+export const resolveCaptionMode = (spec: ProtocolCaptionSpec | undefined, combinationId: number): CaptionMode =>
+  spec?.conditionModes?.[String(combinationId)] ?? spec?.mode ?? 'none';
+
+export interface CaptionWord {
+  text: string;
+  startMs: number;
+  endMs: number;
+}
+
+export interface CaptionSentence {
+  text: string;
+  startMs: number;
+  endMs: number;
+  words: CaptionWord[];
+}
+
+export const buildCaptionTimeline = (segments: SegmentInfo[]): CaptionSentence[] =>
+  segments.flatMap(segment => {
+    const sentences = splitSentences(segment.text).map(text => text.split(/\s+/).filter(Boolean));
+    // Each word counts its characters plus the following space
+    const totalChars = sentences.flat().reduce((sum, word) => sum + word.length + 1, 0) || 1;
+    let position = segment.startMs;
+    return sentences.map(words => {
+      const startMs = position;
+      const timedWords = words.map(text => {
+        const wordStart = position;
+        position += ((text.length + 1) / totalChars) * segment.durationMs;
+        return { text, startMs: wordStart, endMs: position };
+      });
+      return { text: words.join(' '), startMs, endMs: position, words: timedWords };
+    });
+  });
+
+// Indices of the sentence and word being heard at `ms`; the last ones once the lesson is over
+export const findCaption = (timeline: CaptionSentence[], ms: number): { sentenceIndex: number; wordIndex: number } => {
+  const found = timeline.findIndex(s => ms < s.endMs);
+  const sentenceIndex = found === -1 ? timeline.length - 1 : found;
+  const words = timeline[sentenceIndex]?.words ?? [];
+  const wordIndex = words.findIndex(w => ms < w.endMs);
+  return { sentenceIndex, wordIndex: wordIndex === -1 ? words.length - 1 : wordIndex };
+};
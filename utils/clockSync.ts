@@ -0,0 +1,55 @@
+// Clock alignment with an external recorder (NTP-style). Each round sends the
+// local performance.now() time and receives the recorder's clock; the offset is
+// taken from the fastest rounds, where network delay is most symmetric.
+
+export interface ClockSyncRound {
+  localSent: number; // performance.now()
+  localReceived: number; // performance.now()
+  remoteTime: number; // Recorder clock, ms
+}
+
+export interface ClockSyncResult {
+  performedAt: number; // Date.now()
+  localTime: number; // performance.now() at the midpoint of the handshake
+  offsetMs: number; // recorderTime ≈ performance.now() + offsetMs
+  rttMs: number; // Median round-trip of the rounds used
+  roundsUsed: number;
+  roundsTotal: number;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+export const estimateClockOffset = (rounds: ClockSyncRound[]): ClockSyncResult | null => {
+  if (rounds.length === 0) return null;
+  // Fastest quarter of the rounds (at least one)
+  const fastest = [...rounds]
+    .sort((a, b) => (a.localReceived - a.localSent) - (b.localReceived - b.localSent))
+    .slice(0, Math.max(1, Math.ceil(rounds.length / 4)));
+  return {
+    performedAt: Date.now(),
+    localTime: median(rounds.map(r => (r.localSent + r.localReceived) / 2)),
+    offsetMs: median(fastest.map(r => r.remoteTime - (r.localSent + r.localReceived) / 2)),
+    rttMs: median(fastest.map(r => r.localReceived - r.localSent)),
+    roundsUsed: fastest.length,
+    roundsTotal: rounds.length
+  };
+};
+
+// Least-squares slope of offset over local time, in parts per million.
+// Needs at least two handshakes some time apart.
+export const estimateDriftPpm = (results: ClockSyncResult[]): number | null => {
+  if (results.length < 2) return null;
+  const meanX = results.reduce((sum, r) => sum + r.localTime, 0) / results.length;
+  const meanY = results.reduce((sum, r) => sum + r.offsetMs, 0) / results.length;
+  let num = 0;
+  let den = 0;
+  results.forEach(r => {
+    num += (r.localTime - meanX) * (r.offsetMs - meanY);
+    den += (r.localTime - meanX) ** 2;
+  });
+  return den === 0 ? null : (num / den) * 1e6;
+};
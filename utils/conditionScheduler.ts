@@ -0,0 +1,106 @@
+import { TutoringComplexity, TutoringPacing, TutoringConfig, CounterbalancingMethod, ConditionSchedule } from '../types';
+
+// The 4 complexity x pacing combinations of the experiment.
+// IDs are opaque to the participant (1-4); the mapping is deliberately non-linear
+// so the condition cannot be guessed from the ID.
+export const COMBINATIONS = [
+  { id: 1, complexity: TutoringComplexity.SIMPLE, pacing: TutoringPacing.NORMAL },
+  { id: 2, complexity: TutoringComplexity.COMPLEX, pacing: TutoringPacing.FAST },
+  { id: 3, complexity: TutoringComplexity.SIMPLE, pacing: TutoringPacing.FAST },
+  { id: 4, complexity: TutoringComplexity.COMPLEX, pacing: TutoringPacing.NORMAL },
+];
+
+// Persisted across participants on this machine so successive participants
+// receive successive Latin-square rows / permutations.
+const SEQUENCE_COUNTER_KEY = 'neurotutor.sequenceCounter';
+
+// Balanced (Williams) Latin square for an even number of conditions.
+// First row is 0, 1, n-1, 2, n-2, ...; each following row adds 1 (mod n).
+// Every condition appears once per position and follows every other condition once.
+export const balancedLatinSquare = (n: number): number[][] => {
+  const firstRow: number[] = [0];
+  let low = 1;
+  let high = n - 1;
+  for (let i = 1; i < n; i++) {
+    firstRow.push(i % 2 === 1 ? low++ : high--);
+  }
+  return Array.from({ length: n }, (_, row) => firstRow.map(c => (c + row) % n));
+};
+
+// All permutations of [0..n-1] in lexicographic order.
+export const permutations = (n: number): number[][] => {
+  const result: number[][] = [];
+  const permute = (prefix: number[], rest: number[]) => {
+    if (rest.length === 0) {
+      result.push(prefix);
+      return;
+    }
+    rest.forEach((item, i) => permute([...prefix, item], [...rest.slice(0, i), ...rest.slice(i + 1)]));
+  };
+  permute([], Array.from({ length: n }, (_, i) => i));
+  return result;
+};
+
+// Returns the next sequence index and advances the stored counter.
+export const nextSequenceIndex = (): number => {
+  const stored = parseInt(localStorage.getItem(SEQUENCE_COUNTER_KEY) || '0', 10);
+  const current = isNaN(stored) ? 0 : stored;
+  localStorage.setItem(SEQUENCE_COUNTER_KEY, String(current + 1));
+  return current;
+};
+
+export const createSchedule = (
+  sequenceIndex: number,
+  method: Exclude<CounterbalancingMethod, 'fixed'>,
+  topics: string[]
+): ConditionSchedule => {
+  const orders = method === 'latin-square' ? balancedLatinSquare(COMBINATIONS.length) : permutations(COMBINATIONS.length);
+  const order = orders[sequenceIndex % orders.length];
+
+  // Topics are rotated by sequence index so that each topic is paired with each
+  // position across participants. A topic is only reused once all have been used.
+  const topicOffset = sequenceIndex % topics.length;
+  const rotatedTopics = [...topics.slice(topicOffset), ...topics.slice(0, topicOffset)];
+
+  return {
+    method,
+    sequenceIndex,
+    conditions: order.map((comboIndex, position) => {
+      const combo = COMBINATIONS[comboIndex];
+      return {
+        combinationId: combo.id,
+        complexity: combo.complexity,
+        pacing: combo.pacing,
+        topic: rotatedTopics[position % rotatedTopics.length],
+        topicReused: position >= rotatedTopics.length
+      };
+    })
+  };
+};
+
+// Builds the TutoringConfig for a given position in the schedule,
+// stamping the order information so it ends up in the session log.
+export const configForPosition = (schedule: ConditionSchedule, position: number): TutoringConfig => {
+  const condition = schedule.conditions[position];
+  return {
+    topic: condition.topic,
+    complexity: condition.complexity,
+    pacing: condition.pacing,
+    combinationId: condition.combinationId,
+    scheduling: {
+      method: schedule.method,
+      sequenceIndex: schedule.sequenceIndex,
+      conditionOrder: schedule.conditions.map(c => c.combinationId),
+      position,
+      totalConditions: schedule.conditions.length,
+      topicReused: condition.topicReused
+    }
+  };
+};
+
+// Config for a single hand-picked combination outside the schedule (e.g. a practice lesson)
+export const configForCombination = (combinationId: number, topic: string, isPractice = false): TutoringConfig => {
+  const combo = COMBINATIONS.find(c => c.id === combinationId);
+  if (!combo) throw new Error(`Unknown combination ${combinationId}.`);
+  return { topic, complexity: combo.complexity, pacing: combo.pacing, combinationId, isPractice };
+};
@@ -0,0 +1,239 @@
+import { ContentPack, ContentTopic, ContentCellMap, ContentStamp, QuizQuestion, TutoringComplexity, TutoringPacing } from '../types';
+import { checkQuizShape, quizzesOverlap } from './quizItems';
+import { findSentenceFragments } from './sentences';
+
+// Versioned lesson content (scripts, and optionally fixed quizzes, pre-tests and
+// pre-rendered audio) loaded from JSON packs, so every participant in a
+// condition receives identical stimuli. Served from public/content/ by default.
+
+export const DEFAULT_CONTENT_PACKS = ['/content/neurotutor-core.json'];
+
+export class ContentPackError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid content pack:\n${problems.join('\n')}`);
+    this.name = 'ContentPackError';
+  }
+}
+
+const COMPLEXITY_KEYS: Record<TutoringComplexity, 'simple' | 'complex'> = {
+  [TutoringComplexity.SIMPLE]: 'simple',
+  [TutoringComplexity.COMPLEX]: 'complex'
+};
+const PACING_KEYS: Record<TutoringPacing, 'normal' | 'fast'> = {
+  [TutoringPacing.NORMAL]: 'normal',
+  [TutoringPacing.FAST]: 'fast'
+};
+const CELLS = (['simple', 'complex'] as const).flatMap(c => (['normal', 'fast'] as const).map(p => [c, p] as const));
+
+export const cellKeys = (complexity: TutoringComplexity, pacing: TutoringPacing) =>
+  [COMPLEXITY_KEYS[complexity], PACING_KEYS[pacing]] as const;
+
+// Readable cell name for messages, e.g. "simple/fast"
+export const cellName = (complexity: TutoringComplexity, pacing: TutoringPacing) => cellKeys(complexity, pacing).join('/');
+
+const cell = <T>(map: ContentCellMap<T> | undefined, complexity: TutoringComplexity, pacing: TutoringPacing): T | undefined =>
+  map?.[COMPLEXITY_KEYS[complexity]]?.[PACING_KEYS[pacing]];
+
+// Content for one lesson, resolved from a topic and condition
+export interface LessonContent {
+  packId: string;
+  packVersion: string;
+  topicId: string;
+  script: string;
+  quiz?: QuizQuestion[];
+  preTest?: QuizQuestion[];
+  audioUrl?: string; // Absolute
+  audioData?: string; // Inline base64 PCM (offline bundles)
+}
+
+interface InstalledTopic {
+  pack: ContentPack;
+  topic: ContentTopic;
+  baseUrl: string;
+}
+
+const installedPacks: ContentPack[] = [];
+const installedTopics = new Map<string, InstalledTopic>(); // By title
+const lessonsByScript = new Map<string, LessonContent>();
+const packedAudioCache = new Map<string, Promise<string>>();
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Collects every problem in the pack, like protocol validation
+export const validateContentPack = (raw: unknown, source: string): ContentPack => {
+  const problems: string[] = [];
+  if (!isObject(raw)) throw new ContentPackError([`${source}: pack must be a JSON object.`]);
+  if (typeof raw.id !== 'string' || !raw.id) problems.push(`${source}: "id" must be a non-empty string.`);
+  if (typeof raw.version !== 'string' || !raw.version) problems.push(`${source}: "version" must be a non-empty string.`);
+  if (!Array.isArray(raw.topics) || raw.topics.length === 0) {
+    problems.push(`${source}: "topics" must be a non-empty array.`);
+    throw new ContentPackError(problems);
+  }
+
+  const ids = new Set<string>();
+  const titles = new Set<string>();
+  raw.topics.forEach((topic: any, i: number) => {
+    const where = `${source}: topics[${i}]`;
+    if (!isObject(topic)) {
+      problems.push(`${where} must be an object.`);
+      return;
+    }
+    if (typeof topic.id !== 'string' || !topic.id) problems.push(`${where}.id must be a non-empty string.`);
+    else if (ids.has(topic.id)) problems.push(`${where}.id "${topic.id}" is used more than once.`);
+    else ids.add(topic.id);
+    if (typeof topic.title !== 'string' || !topic.title) problems.push(`${where}.title must be a non-empty string.`);
+    else if (titles.has(topic.title)) problems.push(`${where}.title "${topic.title}" is used more than once.`);
+    else titles.add(topic.title);
+
+    CELLS.forEach(([c, p]) => {
+      const script = topic.scripts?.[c]?.[p];
+      if (typeof script !== 'string' || !script.trim()) problems.push(`${where}.scripts.${c}.${p} must be a non-empty string.`);
+      // Scripts are played and captioned sentence by sentence
+      else findSentenceFragments(script).forEach(fragment => {
+        problems.push(`${where}.scripts.${c}.${p} splits into a sentence fragment: "${fragment.slice(0, 40)}". Rephrase the abbreviation before it.`);
+      });
+      if (topic.audio?.[c]?.[p] !== undefined && typeof topic.audio[c][p] !== 'string') {
+        problems.push(`${where}.audio.${c}.${p} must be a URL string.`);
+      }
+      if (topic.audioData?.[c]?.[p] !== undefined && typeof topic.audioData[c][p] !== 'string') {
+        problems.push(`${where}.audioData.${c}.${p} must be a base64 string.`);
+      }
+    });
+
+    if (topic.quiz !== undefined) problems.push(...checkQuizShape(topic.quiz, `${where}.quiz`));
+    if (topic.preTest !== undefined) problems.push(...checkQuizShape(topic.preTest, `${where}.preTest`));
+    CELLS.forEach(([c, p]) => {
+      if (topic.quizzes?.[c]?.[p] !== undefined) problems.push(...checkQuizShape(topic.quizzes[c][p], `${where}.quizzes.${c}.${p}`));
+      if (topic.preTests?.[c]?.[p] !== undefined) problems.push(...checkQuizShape(topic.preTests[c][p], `${where}.preTests.${c}.${p}`));
+      // A fixed pre-test must be a parallel form, not a copy of the post-test
+      const quiz = topic.quizzes?.[c]?.[p] ?? topic.quiz;
+      const preTest = topic.preTests?.[c]?.[p] ?? topic.preTest;
+      if (Array.isArray(quiz) && Array.isArray(preTest) && quizzesOverlap(quiz, preTest)) {
+        problems.push(`${where}: the ${c}/${p} pre-test repeats questions from the post-lesson quiz.`);
+      }
+    });
+  });
+
+  if (raw.offlineHold !== undefined && (!isObject(raw.offlineHold) || typeof raw.offlineHold.text !== 'string' || !raw.offlineHold.text)) {
+    problems.push(`${source}: "offlineHold" must have a non-empty "text".`);
+  }
+
+  if (problems.length > 0) throw new ContentPackError(problems);
+  return raw as ContentPack;
+};
+
+const fetchPack = async (url: string): Promise<ContentPack> => {
+  const response = await fetch(url, { cache: 'no-store' });
+  if (!response.ok) throw new ContentPackError([`Could not load content pack from ${url} (HTTP ${response.status}).`]);
+  let raw: unknown;
+  try {
+    raw = await response.json();
+  } catch {
+    throw new ContentPackError([`Content pack at ${url} is not valid JSON.`]);
+  }
+  return validateContentPack(raw, url);
+};
+
+// Replaces the installed packs. Problems from every pack are reported together.
+export const loadContentPacks = async (urls: string[]): Promise<ContentPack[]> => {
+  const results = await Promise.allSettled(urls.map(fetchPack));
+  const problems: string[] = [];
+  const loaded: { pack: ContentPack; baseUrl: string }[] = [];
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      loaded.push({ pack: result.value, baseUrl: new URL(urls[i], window.location.href).href });
+    } else {
+      problems.push(...(result.reason instanceof ContentPackError ? result.reason.problems : [`${urls[i]}: ${result.reason?.message}`]));
+    }
+  });
+
+  const titles = new Map<string, string>();
+  loaded.forEach(({ pack }) => pack.topics.forEach(topic => {
+    const other = titles.get(topic.title);
+    if (other) problems.push(`Topic "${topic.title}" is defined by both ${other} and ${pack.id}.`);
+    titles.set(topic.title, pack.id);
+  }));
+  if (problems.length > 0) throw new ContentPackError(problems);
+
+  installedPacks.length = 0;
+  installedTopics.clear();
+  lessonsByScript.clear();
+  loaded.forEach(({ pack, baseUrl }) => {
+    installedPacks.push(pack);
+    pack.topics.forEach(topic => {
+      installedTopics.set(topic.title, { pack, topic, baseUrl });
+      Object.values(TutoringComplexity).forEach(complexity => Object.values(TutoringPacing).forEach(pacing => {
+        const lesson = findLessonContent(topic.title, complexity, pacing)!;
+        lessonsByScript.set(lesson.script, lesson);
+      }));
+    });
+  });
+  return [...installedPacks];
+};
+
+export const getInstalledPacks = (): ContentPack[] => [...installedPacks];
+
+export const getInstalledTopics = (): ContentTopic[] => Array.from(installedTopics.values(), entry => entry.topic);
+
+export const getTopic = (title: string): ContentTopic | undefined => installedTopics.get(title)?.topic;
+
+export const findLessonContent = (topicTitle: string, complexity: TutoringComplexity, pacing: TutoringPacing): LessonContent | null => {
+  const entry = installedTopics.get(topicTitle);
+  if (!entry) return null;
+  const { pack, topic, baseUrl } = entry;
+  const audio = cell(topic.audio, complexity, pacing);
+  return {
+    packId: pack.id,
+    packVersion: pack.version,
+    topicId: topic.id,
+    script: cell(topic.scripts, complexity, pacing)!,
+    quiz: cell(topic.quizzes, complexity, pacing) ?? topic.quiz,
+    preTest: cell(topic.preTests, complexity, pacing) ?? topic.preTest,
+    audioUrl: audio ? new URL(audio, baseUrl).href : undefined,
+    audioData: cell(topic.audioData, complexity, pacing)
+  };
+};
+
+// Quizzes and audio are requested by script text, so look the lesson up the same way
+export const findLessonContentByScript = (script: string): LessonContent | null => lessonsByScript.get(script) ?? null;
+
+// Another fixed quiz from the same topic, for when generated items keep failing
+// validation. Pre-tests may also borrow a quiz, as long as it avoids `exclude`.
+export const findFallbackQuiz = (script: string, kind: 'quiz' | 'preTest', exclude: QuizQuestion[] = []): QuizQuestion[] | null => {
+  const lesson = lessonsByScript.get(script);
+  const entry = lesson && Array.from(installedTopics.values()).find(e => e.pack.id === lesson.packId && e.topic.id === lesson.topicId);
+  if (!entry) return null;
+  const { topic } = entry;
+  const cells = <T>(map: ContentCellMap<T> | undefined) => CELLS.map(([c, p]) => map?.[c]?.[p]);
+  const quizzes = [topic.quiz, ...cells(topic.quizzes)];
+  const candidates = kind === 'quiz' ? quizzes : [topic.preTest, ...cells(topic.preTests), ...quizzes];
+  return candidates.find((items): items is QuizQuestion[] => !!items && !quizzesOverlap(exclude, items)) ?? null;
+};
+
+// Pre-rendered audio files hold base64 PCM as plain text
+export const loadPackedAudio = (url: string): Promise<string> => {
+  if (!packedAudioCache.has(url)) {
+    const request = fetch(url).then(response => {
+      if (!response.ok) throw new Error(`Could not load lesson audio from ${url} (HTTP ${response.status}).`);
+      return response.text();
+    }).then(text => text.trim());
+    request.catch(() => packedAudioCache.delete(url));
+    packedAudioCache.set(url, request);
+  }
+  return packedAudioCache.get(url)!;
+};
+
+// Records which parts of a lesson came from the pack; quiz and pre-test are
+// compared by identity because generation takes over when a pack item is unusable.
+export const stampContent = (lesson: LessonContent, quiz: QuizQuestion[], preTest?: QuizQuestion[]): ContentStamp => ({
+  packId: lesson.packId,
+  packVersion: lesson.packVersion,
+  topicId: lesson.topicId,
+  sources: {
+    script: 'pack',
+    quiz: quiz === lesson.quiz ? 'pack' : 'generated',
+    ...(preTest ? { preTest: preTest === lesson.preTest ? 'pack' : 'generated' } : {}),
+    audio: lesson.audioData || lesson.audioUrl ? 'pack' : 'generated'
+  }
+});
@@ -1,17 +1,51 @@
 
-import { TutoringConfig, QuizQuestion, NasaTlxResult, TutoringComplexity, TutoringPacing } from '../types';
+import { TutoringConfig, QuizQuestion, NasaTlxResult, TutoringComplexity, TutoringPacing, ParticipantInfo, ArithmeticTrialResult, QuestionnaireResponse, ProtocolStamp, ContentStamp, OfflineConfig, ProviderStamp, AnswerPolicy, CognitiveLevel, QuizDifficulty, AdaptationDecision, AdaptationDecisionAction, AdaptationTrigger } from '../types';
+import { saveSession } from './studyStorage';
+import { overallWorkload } from './nasaTlx';
+import { markerStream } from './markerStream';
+import type { WorkloadSample } from './workloadSignal';
+import type { BehaviourWindow } from './behaviourTelemetry';
+import type { AcousticFeatures } from './acousticFeatures';
+import { isOfflineMode, getOfflineConfig, OfflineAnswerSource } from './offlineMode';
+import { getAnswerPolicy } from './answerPolicy';
+import { getAudioClockTime } from './audio';
+import type { QuizValidationAttempt } from './quizItems';
+import { ClockSyncResult, estimateDriftPpm } from './clockSync';
 
 export interface LogEvent {
   timestamp: number;
   timestampRelative: number;
+  perfTime: number; // performance.now(), monotonic
+  audioTime: number | null; // AudioContext.currentTime (s), null before audio was set up
   eventType: string;
   metadata?: any;
 }
 
+// Log header for aligning events with physiological recordings
+export interface ClockInfo {
+  timeOrigin: number; // performance.timeOrigin; perfTime + timeOrigin ≈ Unix ms
+  startPerfTime: number;
+  startAudioTime: number | null;
+  sync: ClockSyncResult[]; // Handshakes with the recorder clock (latest before the session, then all during it)
+  driftPpm: number | null; // Recorder clock drift relative to performance.now(), once there are two handshakes
+}
+
 export interface ConversationTurn {
   timestamp: number;
-  userQuestion: string; // Transcribed from audio
+  userQuestion: string; // Transcribed from audio; empty offline, where there is no transcription
   aiAnswer: string;
+  answerSource?: 'api' | OfflineAnswerSource;
+  progressMs?: number; // Lesson position when the learner interrupted
+  acoustics?: AcousticFeatures | null; // Computed locally from the recording; null if it could not be decoded
+}
+
+// How the lesson's quiz or pre-test was obtained and checked
+export interface QuizValidationRecord {
+  timestamp: number;
+  kind: 'quiz' | 'preTest';
+  source: 'pack' | 'cache' | 'generated' | 'fallback'; // Fallback: another pack quiz for the topic
+  attempts: QuizValidationAttempt[]; // One per generation or cache check; empty for pack items
+  valid: boolean; // False when nothing usable was found and the session could not start
 }
 
 export interface QuizDetail {
@@ -20,42 +54,159 @@ export interface QuizDetail {
   selectedOptionText: string;
   isSkipped: boolean;
   isCorrect: boolean;
+  cognitiveLevel?: CognitiveLevel;
+  difficulty?: QuizDifficulty;
 }
 
+export interface LevelAccuracy {
+  total: number;
+  correct: number; // Skipped items count as incorrect, as in the scores
+  accuracy: number; // correct / total
+}
+
+// Untagged items are left out
+export type AccuracyByLevel = Partial<Record<CognitiveLevel, LevelAccuracy>>;
+
 export interface QuizStats {
   totalQuestions: number;
   questionsAnswered: number;
   questionsSkipped: number;
   finalScore: number;
+  preTestScore?: number;
+  preTestTotal?: number;
+  // Hake's normalised gain: (post% - pre%) / (100% - pre%); null when the pre-test was already at ceiling
+  normalizedGain?: number | null;
+  accuracyByLevel?: AccuracyByLevel;
+  preTestAccuracyByLevel?: AccuracyByLevel;
+}
+
+// Delayed re-test of one earlier tutoring session's quiz items
+export interface RetentionResult {
+  originalSessionId: string;
+  topic: string;
+  combinationId?: number;
+  delayMs: number; // Since the original session started
+  answers: number[]; // Indices selected (-1 for skip)
+  details: QuizDetail[];
+  retentionScore: number;
+  accuracyByLevel?: AccuracyByLevel;
+  immediateScore?: number; // Post-lesson quiz score in the original session
+  totalQuestions: number;
 }
 
+export interface LoggedWorkloadSample extends WorkloadSample {
+  timestampRelative: number; // receivedAt relative to session start, aligned with events
+}
+
+export type SessionType = 'calibration' | 'practice' | 'tutoring' | 'questionnaire' | 'retention';
+
 export interface SessionLog {
   participantId: string;
   sessionId: string;
+  sessionType: SessionType;
   startTime: number;
+  runMode?: 'online' | 'offline'; // Offline: all stimuli from the content packs, local interruption replies
+  offline?: OfflineConfig;
+  generation?: ProviderStamp; // Backend for anything not served from a content pack (online only)
+  answerPolicy?: AnswerPolicy; // How interruptions are answered (online lessons only)
+  clock: ClockInfo;
+  participant?: ParticipantInfo;
+  protocol?: ProtocolStamp;
+  content?: ContentStamp; // Absent when the topic was not in a content pack
   
   // Context
   config?: TutoringConfig;
   lessonScript?: string;
   quizQuestions?: QuizQuestion[];
+  preTestQuestions?: QuizQuestion[];
+  quizValidation?: QuizValidationRecord[];
   
   // Interaction
   events: LogEvent[];
   conversationHistory: ConversationTurn[];
+  workloadSamples?: LoggedWorkloadSample[]; // Live classifier estimates received during the session
+  adaptations?: AdaptationDecision[]; // Every adaptation and what triggered it
+  behaviour?: BehaviourWindow[]; // Passive telemetry windows while the lesson plays
   
   // Results
   quizScore?: number;
   quizAnswers?: number[]; // Indices selected (-1 for skip)
   quizStats?: QuizStats;
   quizDetails?: QuizDetail[];
+  preTestAnswers?: number[]; // Indices selected (-1 for "I don't know")
+  preTestDetails?: QuizDetail[];
   nasaTlx?: NasaTlxResult;
+  overallWorkload?: number; // Weighted TLX if weights were collected, raw TLX otherwise
+  questionnaires?: Record<string, QuestionnaireResponse>; // Keyed by instrument ID (NASA-TLX is in nasaTlx)
+
+  // Calibration (mental-arithmetic trials with response capture)
+  calibrationResults?: ArithmeticTrialResult[];
+
+  // Delayed retention test, linked to the original sessions
+  retention?: RetentionResult[];
 }
 
+export const buildQuizDetails = (questions: QuizQuestion[], answers: number[]): QuizDetail[] =>
+  questions.map((q, index) => {
+    const answerIndex = answers[index];
+    const isSkipped = answerIndex === -1;
+    return {
+      questionIndex: index + 1,
+      questionText: q.question,
+      selectedOptionText: isSkipped ? "SKIPPED" : q.options[answerIndex],
+      isSkipped: isSkipped,
+      isCorrect: !isSkipped && answerIndex === q.correctIndex,
+      ...(q.cognitiveLevel && { cognitiveLevel: q.cognitiveLevel }),
+      ...(q.difficulty && { difficulty: q.difficulty })
+    };
+  });
+
+// So condition effects can be compared per level (e.g. whether fast or complex
+// lessons hurt higher-order items specifically)
+export const accuracyByLevel = (details: QuizDetail[]): AccuracyByLevel => {
+  const byLevel: AccuracyByLevel = {};
+  details.forEach(d => {
+    if (!d.cognitiveLevel) return;
+    const level = byLevel[d.cognitiveLevel] ?? (byLevel[d.cognitiveLevel] = { total: 0, correct: 0, accuracy: 0 });
+    level.total++;
+    if (d.isCorrect) level.correct++;
+    level.accuracy = level.correct / level.total;
+  });
+  return byLevel;
+};
+
+// Proportions in [0, 1]; undefined gain at ceiling is reported as null
+export const normalizedGain = (pre: number, post: number): number | null =>
+  pre >= 1 ? null : (post - pre) / (1 - pre);
+
+const PERSIST_DEBOUNCE_MS = 1000;
+
 class EventLogger {
   private static instance: EventLogger;
   private currentSession: SessionLog | null = null;
+  private protocolStamp: ProtocolStamp | null = null;
+  private providerStamp: ProviderStamp | null = null;
+  private persistTimer: number | null = null;
+  private eventListeners = new Set<(event: LogEvent) => void>();
+  private lastClockSync: ClockSyncResult | null = null;
+
+  private constructor() {
+    markerStream.subscribeClockSync(result => this.recordClockSync(result));
+  }
 
-  private constructor() {}
+  // Writes are debounced so high-rate events do not hit IndexedDB one by one
+  private schedulePersist() {
+    if (this.persistTimer !== null) return;
+    this.persistTimer = window.setTimeout(() => {
+      this.persistTimer = null;
+      this.persist();
+    }, PERSIST_DEBOUNCE_MS);
+  }
+
+  private persist() {
+    if (!this.currentSession) return;
+    saveSession(this.currentSession).catch(e => console.error("Failed to persist session", e));
+  }
 
   public static getInstance(): EventLogger {
     if (!EventLogger.instance) {
@@ -64,30 +215,163 @@ class EventLogger {
     return EventLogger.instance;
   }
 
-  public startSession(participantId: string) {
+  // Set by the protocol runner on every phase change; copied into each new session
+  public setProtocolStamp(stamp: ProtocolStamp | null) {
+    this.protocolStamp = stamp;
+  }
+
+  // Set once the study's generation provider is configured
+  public setProviderStamp(stamp: ProviderStamp | null) {
+    this.providerStamp = stamp;
+  }
+
+  // Notified of every logged event (e.g. by simulated signal sources)
+  public subscribe(listener: (event: LogEvent) => void): () => void {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
+  public startSession(participant: ParticipantInfo, sessionType: SessionType = 'tutoring') {
+    // Flush the outgoing session before it is replaced
+    if (this.persistTimer !== null) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+      this.persist();
+    }
     this.currentSession = {
-      participantId,
+      participantId: participant.participantId,
+      participant,
+      ...(this.protocolStamp && { protocol: this.protocolStamp }),
       sessionId: crypto.randomUUID(),
+      sessionType,
       startTime: Date.now(),
+      runMode: isOfflineMode() ? 'offline' : 'online',
+      ...(isOfflineMode() && { offline: getOfflineConfig()! }),
+      ...(!isOfflineMode() && this.providerStamp && { generation: this.providerStamp }),
+      ...(!isOfflineMode() && (sessionType === 'tutoring' || sessionType === 'practice') && { answerPolicy: getAnswerPolicy() }),
+      clock: {
+        timeOrigin: performance.timeOrigin,
+        startPerfTime: performance.now(),
+        startAudioTime: getAudioClockTime(),
+        sync: this.lastClockSync ? [this.lastClockSync] : [],
+        driftPpm: null
+      },
       events: [],
       conversationHistory: []
     };
+    this.log('session_start', { sessionType, runMode: this.currentSession.runMode });
   }
 
-  public setSessionContext(config: TutoringConfig, script: string, quiz: QuizQuestion[]) {
+  public setSessionContext(config: TutoringConfig, script: string, quiz: QuizQuestion[], preTest?: QuizQuestion[], content?: ContentStamp) {
     if (!this.currentSession) return;
     this.currentSession.config = config;
+    if (content) this.currentSession.content = content;
     this.currentSession.lessonScript = script;
     this.currentSession.quizQuestions = quiz;
+    if (preTest) this.currentSession.preTestQuestions = preTest;
+    this.schedulePersist();
   }
 
-  public logConversation(userQuestion: string, aiAnswer: string) {
+  public recordQuizValidation(record: QuizValidationRecord) {
+    if (!this.currentSession) return;
+    if (!this.currentSession.quizValidation) this.currentSession.quizValidation = [];
+    this.currentSession.quizValidation.push(record);
+    this.log('quiz_validation', {
+      kind: record.kind,
+      source: record.source,
+      attempts: record.attempts.length,
+      repairs: record.attempts.reduce((sum, a) => sum + a.repairs.length, 0),
+      warnings: record.attempts.reduce((sum, a) => sum + a.warnings.length, 0),
+      valid: record.valid
+    });
+  }
+
+  public setPreTestResults(answers: number[]) {
+    if (!this.currentSession?.preTestQuestions) return;
+    this.currentSession.preTestAnswers = answers;
+    this.currentSession.preTestDetails = buildQuizDetails(this.currentSession.preTestQuestions, answers);
+    this.schedulePersist();
+  }
+
+  public logConversation(userQuestion: string, aiAnswer: string, acoustics?: AcousticFeatures | null, answerSource: ConversationTurn['answerSource'] = 'api', progressMs?: number) {
     if (!this.currentSession) return;
     this.currentSession.conversationHistory.push({
       timestamp: Date.now(),
       userQuestion,
-      aiAnswer
+      aiAnswer,
+      answerSource,
+      ...(progressMs !== undefined && { progressMs }),
+      acoustics
     });
+    this.schedulePersist();
+  }
+
+  // Earlier turns of the current session, passed to the model with the next question
+  public getConversationHistory(): ConversationTurn[] {
+    return this.currentSession ? [...this.currentSession.conversationHistory] : [];
+  }
+
+  public recordCalibrationTrial(result: ArithmeticTrialResult) {
+    if (!this.currentSession) return;
+    if (!this.currentSession.calibrationResults) this.currentSession.calibrationResults = [];
+    this.currentSession.calibrationResults.push(result);
+    this.schedulePersist();
+  }
+
+  private recordClockSync(result: ClockSyncResult) {
+    this.lastClockSync = result;
+    if (!this.currentSession) return;
+    const clock = this.currentSession.clock;
+    clock.sync.push(result);
+    clock.driftPpm = estimateDriftPpm(clock.sync);
+    this.schedulePersist();
+  }
+
+  public recordBehaviourWindow(window: Omit<BehaviourWindow, 'timestampRelative'>) {
+    if (!this.currentSession) return;
+    if (!this.currentSession.behaviour) this.currentSession.behaviour = [];
+    // Relative start of the window, derived from the monotonic clock
+    const timestampRelative = Math.round(window.startPerfTime - this.currentSession.clock.startPerfTime);
+    this.currentSession.behaviour.push({ timestampRelative, ...window });
+    this.schedulePersist();
+  }
+
+  public recordWorkloadSample(sample: WorkloadSample) {
+    if (!this.currentSession) return;
+    if (!this.currentSession.workloadSamples) this.currentSession.workloadSamples = [];
+    this.currentSession.workloadSamples.push({ ...sample, timestampRelative: sample.receivedAt - this.currentSession.startTime });
+    this.schedulePersist();
+  }
+
+  public recordAdaptation(action: AdaptationDecisionAction, trigger: AdaptationTrigger, progressMs: number) {
+    if (!this.currentSession) return;
+    const now = Date.now();
+    const decision = { action, trigger, progressMs, timestamp: now, timestampRelative: now - this.currentSession.startTime };
+    if (!this.currentSession.adaptations) this.currentSession.adaptations = [];
+    this.currentSession.adaptations.push(decision);
+    this.log('adaptation', { action, trigger, progressMs });
+  }
+
+  public setQuestionnaireResponse(response: QuestionnaireResponse) {
+    if (!this.currentSession) return;
+    if (!this.currentSession.questionnaires) this.currentSession.questionnaires = {};
+    this.currentSession.questionnaires[response.instrumentId] = response;
+    this.schedulePersist();
+  }
+
+  public setRetentionResults(results: RetentionResult[]) {
+    if (!this.currentSession) return;
+    this.currentSession.retention = results;
+    this.schedulePersist();
+  }
+
+  public setNasaTlx(rating: NasaTlxResult) {
+    if (!this.currentSession) return;
+    this.currentSession.nasaTlx = rating;
+    this.currentSession.overallWorkload = overallWorkload(rating);
+    this.schedulePersist();
   }
 
   public setResults(score: number, answers: number[], rating?: NasaTlxResult) {
@@ -97,63 +381,88 @@ class EventLogger {
     
     // Calculate detailed stats
     if (this.currentSession.quizQuestions) {
-        let skippedCount = 0;
-        const details: QuizDetail[] = this.currentSession.quizQuestions.map((q, index) => {
-            const answerIndex = answers[index];
-            const isSkipped = answerIndex === -1;
-            if (isSkipped) skippedCount++;
-
-            return {
-                questionIndex: index + 1,
-                questionText: q.question,
-                selectedOptionText: isSkipped ? "SKIPPED" : q.options[answerIndex],
-                isSkipped: isSkipped,
-                isCorrect: !isSkipped && answerIndex === q.correctIndex
-            };
-        });
+        const details = buildQuizDetails(this.currentSession.quizQuestions, answers);
+        const skippedCount = details.filter(d => d.isSkipped).length;
 
         this.currentSession.quizStats = {
             totalQuestions: this.currentSession.quizQuestions.length,
             questionsAnswered: this.currentSession.quizQuestions.length - skippedCount,
             questionsSkipped: skippedCount,
-            finalScore: score
+            finalScore: score,
+            accuracyByLevel: accuracyByLevel(details)
         };
         this.currentSession.quizDetails = details;
+
+        const preTest = this.currentSession.preTestDetails;
+        if (preTest) {
+            const preTestScore = preTest.filter(d => d.isCorrect).length;
+            this.currentSession.quizStats.preTestScore = preTestScore;
+            this.currentSession.quizStats.preTestTotal = preTest.length;
+            this.currentSession.quizStats.preTestAccuracyByLevel = accuracyByLevel(preTest);
+            this.currentSession.quizStats.normalizedGain = normalizedGain(
+                preTestScore / preTest.length,
+                score / this.currentSession.quizQuestions.length
+            );
+        }
     }
 
     if (rating) {
-        this.currentSession.nasaTlx = rating;
+        this.setNasaTlx(rating);
     }
+    this.schedulePersist();
   }
 
   public log(eventType: string, metadata: any = {}) {
     if (!this.currentSession) return;
     const now = Date.now();
-    this.currentSession.events.push({
+    const event = {
       timestamp: now,
       timestampRelative: now - this.currentSession.startTime,
+      perfTime: performance.now(),
+      audioTime: getAudioClockTime(),
       eventType,
       metadata
-    });
+    };
+    this.currentSession.events.push(event);
+    this.eventListeners.forEach(listener => listener(event));
+    // Mirrored to the acquisition bridge in real time
+    markerStream.send(eventType, { timestamp: now, perfTime: event.perfTime, audioTime: event.audioTime }, this.currentSession.sessionId, metadata);
+    this.schedulePersist();
   }
 
   public exportJSON() {
     if (!this.currentSession) return;
+    this.persist();
 
     // Prepare human-readable fields as requested
     const config = this.currentSession.config;
     
-    const readableDetails = {
+    const readableDetails = !config ? { Block: this.currentSession.sessionType } : {
         Speed: config?.pacing === TutoringPacing.FAST ? "Fast" : "Normal",
         Complexity: config?.complexity === TutoringComplexity.COMPLEX ? "Complex" : "Simple",
         Topic: config?.topic || "Unknown",
-        Combination: config?.combinationId || 0
+        Combination: config?.combinationId || 0,
+        Workload: this.currentSession.overallWorkload ?? null,
+        LearningGain: this.currentSession.quizStats?.normalizedGain ?? null,
+        RecallAccuracy: this.currentSession.quizStats?.accuracyByLevel?.recall?.accuracy ?? null,
+        ConceptualAccuracy: this.currentSession.quizStats?.accuracyByLevel?.conceptual?.accuracy ?? null,
+        HigherOrderAccuracy: this.currentSession.quizStats?.accuracyByLevel?.['higher-order']?.accuracy ?? null,
+        // Counterbalancing, so order effects can be modelled (1-based position)
+        ConditionOrder: config?.scheduling?.conditionOrder || [],
+        OrderPosition: config?.scheduling ? config.scheduling.position + 1 : 0,
+        Captions: config?.captions || 'none'
     };
 
     // Construct the export object with readable fields at the top level
     const exportData = {
         ...this.currentSession,
-        ...readableDetails
+        ...readableDetails,
+        RunMode: this.currentSession.runMode || 'online',
+        Provider: this.currentSession.generation?.provider || null,
+        ProtocolId: this.currentSession.protocol?.protocolId || null,
+        ProtocolVersion: this.currentSession.protocol?.protocolVersion || null,
+        ContentPackId: this.currentSession.content?.packId || null,
+        ContentPackVersion: this.currentSession.content?.packVersion || null
     };
 
     const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(exportData, null, 2));
@@ -161,8 +470,8 @@ class EventLogger {
     downloadAnchorNode.setAttribute("href", dataStr);
     
     // Create a filename with topic and timestamp
-    const topic = config?.topic.replace(/\s+/g, '_') || 'session';
-    const filename = `NeuroTutor_${topic}_${this.currentSession.startTime}.json`;
+    const topic = config?.topic.replace(/\s+/g, '_') || this.currentSession.sessionType;
+    const filename = `NeuroTutor_${this.currentSession.participantId}_${topic}_${this.currentSession.startTime}.json`;
     
     downloadAnchorNode.setAttribute("download", filename);
     document.body.appendChild(downloadAnchorNode);
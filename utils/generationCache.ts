@@ -0,0 +1,142 @@
+import { openDatabase, requestToPromise, CACHE_ENTRY_STORE, CACHE_VALUE_STORE } from './studyStorage';
+
+// Persistent cache of generated content (IndexedDB), so a reload reuses
+// expensive TTS results and a script keeps the same quiz. Entries are keyed by
+// a hash of the input, the model and the prompt version. Unpinned entries are
+// evicted least-recently-used once the cache exceeds MAX_CACHE_BYTES; a pinned
+// entry is returned for its input whatever the current model or prompt version.
+
+export const MAX_CACHE_BYTES = 250 * 1024 * 1024;
+
+export type GenerationCacheKind = 'script' | 'audio' | 'quiz' | 'preTest';
+
+// What produced an entry; part of the key
+export interface GenerationScope {
+  model: string; // e.g. "gemini:gemini-3-flash-preview"
+  promptVersion: string;
+}
+
+export interface GenerationCacheEntry extends GenerationScope {
+  key: string;
+  kind: GenerationCacheKind;
+  contentHash: string; // SHA-256 of the input
+  label: string; // Readable summary of the input, for the researcher view
+  sizeBytes: number;
+  pinned: boolean;
+  createdAt: number;
+  lastUsedAt: number;
+  hits: number;
+}
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const entryKey = (kind: GenerationCacheKind, scope: GenerationScope, contentHash: string) =>
+  `${kind}|${scope.model}|${scope.promptVersion}|${contentHash}`;
+
+const getEntries = async (kind: GenerationCacheKind, contentHash: string): Promise<GenerationCacheEntry[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(CACHE_ENTRY_STORE, 'readonly');
+  return requestToPromise(tx.objectStore(CACHE_ENTRY_STORE).index('input').getAll([kind, contentHash])) as Promise<GenerationCacheEntry[]>;
+};
+
+export interface CachedGeneration<T> {
+  value: T;
+  entry: GenerationCacheEntry;
+}
+
+// Pinned entry for this input if there is one, otherwise the exact match
+export const getCachedGeneration = async <T>(kind: GenerationCacheKind, input: string, scope: GenerationScope): Promise<CachedGeneration<T> | undefined> => {
+  const contentHash = await sha256(input);
+  const entries = await getEntries(kind, contentHash);
+  const entry = entries.find(e => e.pinned) ?? entries.find(e => e.key === entryKey(kind, scope, contentHash));
+  if (!entry) return undefined;
+
+  const db = await openDatabase();
+  const tx = db.transaction([CACHE_ENTRY_STORE, CACHE_VALUE_STORE], 'readwrite');
+  const stored = await requestToPromise(tx.objectStore(CACHE_VALUE_STORE).get(entry.key));
+  if (!stored) return undefined;
+  tx.objectStore(CACHE_ENTRY_STORE).put({ ...entry, lastUsedAt: Date.now(), hits: entry.hits + 1 });
+  return { value: stored.value as T, entry };
+};
+
+export const putCachedGeneration = async (
+  kind: GenerationCacheKind,
+  input: string,
+  scope: GenerationScope,
+  label: string,
+  value: unknown
+): Promise<void> => {
+  const contentHash = await sha256(input);
+  const key = entryKey(kind, scope, contentHash);
+  const now = Date.now();
+  const entry: GenerationCacheEntry = {
+    key, kind, contentHash, label, ...scope,
+    sizeBytes: JSON.stringify(value).length,
+    pinned: false,
+    createdAt: now,
+    lastUsedAt: now,
+    hits: 0
+  };
+  const db = await openDatabase();
+  const tx = db.transaction([CACHE_ENTRY_STORE, CACHE_VALUE_STORE], 'readwrite');
+  tx.objectStore(CACHE_VALUE_STORE).put({ key, value });
+  await requestToPromise(tx.objectStore(CACHE_ENTRY_STORE).put(entry));
+  await evict();
+};
+
+// Least recently used unpinned entries go first
+const evict = async () => {
+  const entries = await listCacheEntries();
+  let total = entries.reduce((sum, e) => sum + e.sizeBytes, 0);
+  if (total <= MAX_CACHE_BYTES) return;
+  const candidates = entries.filter(e => !e.pinned).sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+  const doomed: string[] = [];
+  for (const entry of candidates) {
+    if (total <= MAX_CACHE_BYTES) break;
+    total -= entry.sizeBytes;
+    doomed.push(entry.key);
+  }
+  await deleteCacheEntries(doomed);
+};
+
+export const listCacheEntries = async (): Promise<GenerationCacheEntry[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(CACHE_ENTRY_STORE, 'readonly');
+  return requestToPromise(tx.objectStore(CACHE_ENTRY_STORE).getAll()) as Promise<GenerationCacheEntry[]>;
+};
+
+// Pinning an entry unpins any other entry for the same input, so one input maps to one result
+export const setCacheEntryPinned = async (key: string, pinned: boolean): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(CACHE_ENTRY_STORE, 'readwrite');
+  const store = tx.objectStore(CACHE_ENTRY_STORE);
+  const entry: GenerationCacheEntry | undefined = await requestToPromise(store.get(key));
+  if (!entry) return;
+  if (pinned) {
+    const siblings: GenerationCacheEntry[] = await requestToPromise(store.index('input').getAll([entry.kind, entry.contentHash]));
+    siblings.filter(e => e.pinned && e.key !== key).forEach(e => store.put({ ...e, pinned: false }));
+  }
+  await requestToPromise(store.put({ ...entry, pinned }));
+};
+
+export const deleteCacheEntries = async (keys: string[]): Promise<void> => {
+  if (keys.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction([CACHE_ENTRY_STORE, CACHE_VALUE_STORE], 'readwrite');
+  keys.forEach(key => {
+    tx.objectStore(CACHE_ENTRY_STORE).delete(key);
+    tx.objectStore(CACHE_VALUE_STORE).delete(key);
+  });
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const clearGenerationCache = async (includePinned: boolean): Promise<void> => {
+  const entries = await listCacheEntries();
+  await deleteCacheEntries(entries.filter(e => includePinned || !e.pinned).map(e => e.key));
+};
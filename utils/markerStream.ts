@@ -0,0 +1,297 @@
+import { MarkerStreamConfig } from '../types';
+import { ClockSyncResult, ClockSyncRound, estimateClockOffset } from './clockSync';
+
+// Real-time event markers for EEG/fNIRS synchronisation. Every logged event is
+// sent as a JSON message over a local WebSocket to a bridge process, which
+// forwards the numeric code to the recorder (e.g. as an LSL marker or TTL).
+
+export const DEFAULT_MARKER_URL = 'ws://localhost:8765';
+
+// Codes per event type; protocols can override or extend these
+export const DEFAULT_MARKER_CODES: Record<string, number> = {
+  session_start: 1,
+  session_end: 2,
+  audio_start: 10,
+  audio_resume: 11,
+  user_interrupt: 12,
+  pretest_answer: 20,
+  pretest_end: 21,
+  quiz_answer: 22,
+  calibration_start: 30,
+  calibration_end: 31,
+  calibration_trial_onset: 32,
+  calibration_trial_offset: 33,
+  calibration_trial_score: 34,
+  adaptation: 40,
+  tab_hidden: 50,
+  tab_visible: 51,
+  fullscreen_exit: 52
+};
+
+// Sent for event types without a configured code
+export const UNMAPPED_MARKER_CODE = 255;
+
+// Markers kept while the bridge is unreachable; the oldest are dropped beyond this
+const MAX_QUEUE_LENGTH = 5000;
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 15000;
+
+// Clock-sync handshake defaults
+const SYNC_ROUNDS = 20;
+const SYNC_ROUND_GAP_MS = 50;
+const SYNC_ROUND_TIMEOUT_MS = 1000;
+const SYNC_INTERVAL_MS = 60000;
+
+export type MarkerStreamStatus = 'disabled' | 'connecting' | 'connected' | 'disconnected';
+
+export interface Marker {
+  seq: number;
+  code: number;
+  eventType: string;
+  timestamp: number; // Date.now()
+  perfTime: number; // performance.now()
+  audioTime: number | null; // AudioContext.currentTime (s), null before audio was set up
+  sessionId?: string;
+  metadata?: any;
+}
+
+type StatusListener = (status: MarkerStreamStatus, queued: number) => void;
+type ClockSyncListener = (result: ClockSyncResult) => void;
+
+class MarkerStream {
+  private static instance: MarkerStream;
+  private socket: WebSocket | null = null;
+  private url = DEFAULT_MARKER_URL;
+  private codes: Record<string, number> = { ...DEFAULT_MARKER_CODES };
+  private status: MarkerStreamStatus = 'disabled';
+  private queue: Marker[] = [];
+  private seq = 0;
+  private droppedCount = 0;
+  private reconnectDelay = RECONNECT_MIN_MS;
+  private reconnectTimer: number | null = null;
+  private listeners = new Set<StatusListener>();
+  private syncSettings: { rounds: number; intervalMs: number } | null = null;
+  private syncTimer: number | null = null;
+  private syncing = false;
+  private syncRoundId = 0; // Never reused, so a late response cannot answer a later handshake's round
+  private pendingRounds = new Map<number, (remoteTime: number) => void>();
+  private syncListeners = new Set<ClockSyncListener>();
+
+  private constructor() {}
+
+  public static getInstance(): MarkerStream {
+    if (!MarkerStream.instance) {
+      MarkerStream.instance = new MarkerStream();
+    }
+    return MarkerStream.instance;
+  }
+
+  // Enables the stream with the given settings, or disables it when config is undefined
+  public configure(config?: MarkerStreamConfig) {
+    this.disconnect();
+    if (!config) {
+      this.setStatus('disabled');
+      return;
+    }
+    this.url = config.url || DEFAULT_MARKER_URL;
+    this.codes = { ...DEFAULT_MARKER_CODES, ...config.codes };
+    const sync = config.clockSync === true ? {} : config.clockSync || null;
+    this.syncSettings = sync && { rounds: sync.rounds ?? SYNC_ROUNDS, intervalMs: sync.intervalMs ?? SYNC_INTERVAL_MS };
+    this.connect();
+  }
+
+  public codeFor(eventType: string): number {
+    return this.codes[eventType] ?? UNMAPPED_MARKER_CODE;
+  }
+
+  public send(eventType: string, time: { timestamp: number; perfTime: number; audioTime: number | null }, sessionId?: string, metadata?: any) {
+    if (this.status === 'disabled') return;
+    const marker: Marker = {
+      seq: this.seq++,
+      code: this.codeFor(eventType),
+      eventType,
+      ...time,
+      sessionId,
+      metadata
+    };
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify({ type: 'marker', ...marker }));
+    } else {
+      this.enqueue(marker);
+    }
+  }
+
+  public getStatus(): MarkerStreamStatus {
+    return this.status;
+  }
+
+  public getQueueLength(): number {
+    return this.queue.length;
+  }
+
+  public subscribe(listener: StatusListener): () => void {
+    this.listeners.add(listener);
+    listener(this.status, this.queue.length);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  public subscribeClockSync(listener: ClockSyncListener): () => void {
+    this.syncListeners.add(listener);
+    return () => {
+      this.syncListeners.delete(listener);
+    };
+  }
+
+  // Handshake with the recorder clock through the bridge, which must answer
+  // { type: 'sync_request', id } with { type: 'sync_response', id, recorderTime }
+  public async syncClock(rounds = this.syncSettings?.rounds ?? SYNC_ROUNDS): Promise<ClockSyncResult | null> {
+    if (this.syncing || this.socket?.readyState !== WebSocket.OPEN) return null;
+    this.syncing = true;
+    const completed: ClockSyncRound[] = [];
+    try {
+      for (let i = 0; i < rounds; i++) {
+        const round = await this.syncRound(this.syncRoundId++);
+        if (round) completed.push(round);
+        await new Promise(r => setTimeout(r, SYNC_ROUND_GAP_MS));
+      }
+    } finally {
+      this.syncing = false;
+      this.pendingRounds.clear();
+    }
+    const result = estimateClockOffset(completed);
+    if (result) {
+      this.syncListeners.forEach(listener => listener(result));
+    } else {
+      console.warn('Clock sync failed: the bridge did not answer any sync request');
+    }
+    return result;
+  }
+
+  private syncRound(id: number): Promise<ClockSyncRound | null> {
+    return new Promise(resolve => {
+      if (this.socket?.readyState !== WebSocket.OPEN) {
+        resolve(null);
+        return;
+      }
+      const timeout = window.setTimeout(() => {
+        this.pendingRounds.delete(id);
+        resolve(null);
+      }, SYNC_ROUND_TIMEOUT_MS);
+      const localSent = performance.now();
+      this.pendingRounds.set(id, remoteTime => {
+        clearTimeout(timeout);
+        resolve({ localSent, localReceived: performance.now(), remoteTime });
+      });
+      this.socket.send(JSON.stringify({ type: 'sync_request', id, localTime: localSent }));
+    });
+  }
+
+  private handleMessage(data: string) {
+    let message: any;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      return;
+    }
+    if (message?.type === 'sync_response' && typeof message.recorderTime === 'number') {
+      const pending = this.pendingRounds.get(message.id);
+      this.pendingRounds.delete(message.id);
+      pending?.(message.recorderTime);
+    }
+  }
+
+  private enqueue(marker: Marker) {
+    this.queue.push(marker);
+    if (this.queue.length > MAX_QUEUE_LENGTH) {
+      this.queue.shift();
+      this.droppedCount++;
+    }
+    this.notify();
+  }
+
+  // Queued markers keep their original timestamps so the bridge can place them correctly
+  private flushQueue() {
+    while (this.queue.length > 0 && this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify({ type: 'marker', queued: true, ...this.queue.shift()! }));
+    }
+    if (this.droppedCount > 0 && this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify({ type: 'dropped', count: this.droppedCount }));
+      this.droppedCount = 0;
+    }
+    this.notify();
+  }
+
+  private connect() {
+    this.setStatus('connecting');
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch (e) {
+      console.error('Invalid marker stream URL', e);
+      this.setStatus('disconnected');
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectDelay = RECONNECT_MIN_MS;
+      this.setStatus('connected');
+      this.flushQueue();
+      if (this.syncSettings) {
+        // Repeated handshakes let drift be estimated across a session
+        this.syncClock();
+        this.syncTimer = window.setInterval(() => this.syncClock(), this.syncSettings.intervalMs);
+      }
+    };
+    socket.onmessage = (event) => this.handleMessage(String(event.data));
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.stopSyncTimer();
+      this.setStatus('disconnected');
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect() {
+    if (this.reconnectTimer !== null) return;
+    this.reconnectTimer = window.setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, this.reconnectDelay);
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, RECONNECT_MAX_MS);
+  }
+
+  private stopSyncTimer() {
+    if (this.syncTimer !== null) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+    }
+  }
+
+  private disconnect() {
+    this.stopSyncTimer();
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+    }
+  }
+
+  private setStatus(status: MarkerStreamStatus) {
+    this.status = status;
+    this.notify();
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener(this.status, this.queue.length));
+  }
+}
+
+export const markerStream = MarkerStream.getInstance();
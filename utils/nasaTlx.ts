@@ -0,0 +1,69 @@
+import { NasaTlxSubscale, NasaTlxRatings, NasaTlxPairwiseChoice, NasaTlxResult } from '../types';
+
+export interface NasaTlxSubscaleDefinition {
+  id: NasaTlxSubscale;
+  label: string;
+  description: string;
+  lowAnchor: string;
+  highAnchor: string;
+}
+
+// Standard NASA-TLX subscales (Hart & Staveland, 1988)
+export const NASA_TLX_SUBSCALES: NasaTlxSubscaleDefinition[] = [
+  { id: 'mentalDemand', label: 'Mental Demand', description: 'How mentally demanding was the task?', lowAnchor: 'Very Low', highAnchor: 'Very High' },
+  { id: 'physicalDemand', label: 'Physical Demand', description: 'How physically demanding was the task?', lowAnchor: 'Very Low', highAnchor: 'Very High' },
+  { id: 'temporalDemand', label: 'Temporal Demand', description: 'How hurried or rushed was the pace of the task?', lowAnchor: 'Very Low', highAnchor: 'Very High' },
+  { id: 'performance', label: 'Performance', description: 'How successful were you in accomplishing what you were asked to do?', lowAnchor: 'Perfect', highAnchor: 'Failure' },
+  { id: 'effort', label: 'Effort', description: 'How hard did you have to work to accomplish your level of performance?', lowAnchor: 'Very Low', highAnchor: 'Very High' },
+  { id: 'frustration', label: 'Frustration', description: 'How insecure, discouraged, irritated, stressed, and annoyed were you?', lowAnchor: 'Very Low', highAnchor: 'Very High' }
+];
+
+export const getSubscaleDefinition = (id: NasaTlxSubscale) => NASA_TLX_SUBSCALES.find(s => s.id === id)!;
+
+// The 15 unordered pairs of subscales used in the weighting procedure
+export const buildPairwiseComparisons = (): [NasaTlxSubscale, NasaTlxSubscale][] => {
+  const pairs: [NasaTlxSubscale, NasaTlxSubscale][] = [];
+  NASA_TLX_SUBSCALES.forEach((a, i) => {
+    NASA_TLX_SUBSCALES.slice(i + 1).forEach(b => pairs.push([a.id, b.id]));
+  });
+  return pairs;
+};
+
+// Pairs are presented in random order with random left/right placement
+export const shufflePairs = (pairs: [NasaTlxSubscale, NasaTlxSubscale][]): [NasaTlxSubscale, NasaTlxSubscale][] => {
+  const shuffled = pairs.map(pair => (Math.random() < 0.5 ? [pair[1], pair[0]] : pair) as [NasaTlxSubscale, NasaTlxSubscale]);
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+export const computeRawTlx = (ratings: NasaTlxRatings): number =>
+  NASA_TLX_SUBSCALES.reduce((sum, s) => sum + ratings[s.id], 0) / NASA_TLX_SUBSCALES.length;
+
+export const computeWeights = (choices: NasaTlxPairwiseChoice[]): Record<NasaTlxSubscale, number> => {
+  const weights = Object.fromEntries(NASA_TLX_SUBSCALES.map(s => [s.id, 0])) as Record<NasaTlxSubscale, number>;
+  choices.forEach(c => { weights[c.chosen]++; });
+  return weights;
+};
+
+export const computeWeightedTlx = (ratings: NasaTlxRatings, weights: Record<NasaTlxSubscale, number>): number => {
+  const totalWeight = NASA_TLX_SUBSCALES.reduce((sum, s) => sum + weights[s.id], 0);
+  if (totalWeight === 0) return computeRawTlx(ratings);
+  return NASA_TLX_SUBSCALES.reduce((sum, s) => sum + ratings[s.id] * weights[s.id], 0) / totalWeight;
+};
+
+export const buildNasaTlxResult = (ratings: NasaTlxRatings, choices?: NasaTlxPairwiseChoice[]): NasaTlxResult => {
+  const result: NasaTlxResult = { ...ratings, rawTlx: computeRawTlx(ratings) };
+  if (choices && choices.length > 0) {
+    const weights = computeWeights(choices);
+    result.pairwiseChoices = choices;
+    result.weights = weights;
+    result.weightedTlx = computeWeightedTlx(ratings, weights);
+  }
+  return result;
+};
+
+// Weighted TLX when the weighting step was completed, raw TLX otherwise
+export const overallWorkload = (result: NasaTlxResult): number => result.weightedTlx ?? result.rawTlx;
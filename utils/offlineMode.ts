@@ -0,0 +1,86 @@
+import { OfflineConfig, StudyProtocol, TutoringComplexity, TutoringPacing } from '../types';
+import { ContentPackError, cellName, findLessonContent, getInstalledPacks, getInstalledTopics } from './contentPacks';
+import { splitSentences } from './sentences';
+
+// Offline sessions: every stimulus comes from the installed content packs
+// (normally an offline bundle, see services/offlineExport.ts) and no API call is
+// made. Enabled by the protocol's "offline" field.
+
+export const DEFAULT_OFFLINE_CONFIG: OfflineConfig = {
+  interruptionFallback: 'hold'
+};
+
+export const DEFAULT_HOLD_MESSAGE = "Please hold your question until the end of the lesson. Let's continue.";
+
+export type OfflineAnswerSource = 'offline-hold' | 'offline-retrieve';
+
+export interface OfflineAnswer {
+  text: string;
+  audioData?: string; // Pre-rendered, when the bundle has it
+  source: OfflineAnswerSource;
+}
+
+let activeConfig: OfflineConfig | null = null;
+
+export const configureOfflineMode = (config?: Partial<OfflineConfig>) => {
+  activeConfig = config ? { ...DEFAULT_OFFLINE_CONFIG, ...config } : null;
+};
+
+export const getOfflineConfig = (): OfflineConfig | null => activeConfig;
+
+export const isOfflineMode = (): boolean => activeConfig !== null;
+
+// Fails at startup rather than mid-session: every lesson the protocol can
+// present needs pre-rendered audio and a fixed quiz (and pre-test, if used).
+export const checkOfflineContent = (protocol: StudyProtocol) => {
+  const topics = new Set<string>();
+  let needsPreTest = false;
+  protocol.phases.forEach(phase => {
+    if (phase.type === 'practice') topics.add(phase.topic);
+    if (phase.type === 'lessons') {
+      (phase.conditions?.map(c => c.topic) ?? phase.topics ?? getInstalledTopics().map(t => t.title)).forEach(t => topics.add(t));
+      if (phase.preTest) needsPreTest = true;
+    }
+  });
+
+  const problems: string[] = [];
+  topics.forEach(topic => {
+    Object.values(TutoringComplexity).forEach(complexity => Object.values(TutoringPacing).forEach(pacing => {
+      const lesson = findLessonContent(topic, complexity, pacing);
+      if (!lesson) return; // Reported by checkProtocolTopics
+      const where = `Offline mode: "${topic}" (${cellName(complexity, pacing)})`;
+      if (!lesson.audioData && !lesson.audioUrl) problems.push(`${where} has no pre-rendered audio.`);
+      if (!lesson.quiz) problems.push(`${where} has no fixed quiz.`);
+      if (needsPreTest && !lesson.preTest) problems.push(`${where} has no fixed pre-test.`);
+    }));
+  });
+  if (problems.length > 0) throw new ContentPackError(problems);
+};
+
+// The sentence being heard at `progress` (0-1 through the lesson), with the one
+// before it for context. Position is estimated from the share of characters.
+export const retrievePassage = (script: string, progress: number): string => {
+  const sentences = splitSentences(script);
+  const target = Math.max(0, Math.min(1, progress)) * script.length;
+  let offset = 0;
+  let index = sentences.length - 1;
+  for (let i = 0; i < sentences.length; i++) {
+    offset += sentences[i].length + 1;
+    if (offset >= target) {
+      index = i;
+      break;
+    }
+  }
+  return sentences.slice(Math.max(0, index - 1), index + 1).join(' ');
+};
+
+// Local stand-in for answerLearnerQuestion; the recorded question is not used
+export const answerOffline = (script: string, progress: number): OfflineAnswer => {
+  const config = activeConfig ?? DEFAULT_OFFLINE_CONFIG;
+  if (config.interruptionFallback === 'retrieve') {
+    return { text: retrievePassage(script, progress), source: 'offline-retrieve' };
+  }
+  if (config.holdMessage) return { text: config.holdMessage, source: 'offline-hold' };
+  const hold = getInstalledPacks().find(pack => pack.offlineHold)?.offlineHold;
+  return { text: hold?.text ?? DEFAULT_HOLD_MESSAGE, audioData: hold?.audioData, source: 'offline-hold' };
+};
@@ -0,0 +1,506 @@
+import { StudyProtocol, ProtocolPhase, CalibrationConfig, ConditionSchedule, CounterbalancingMethod, WorkloadCondition } from '../types';
+import { COMBINATIONS, createSchedule, nextSequenceIndex } from './conditionScheduler';
+import { DEFAULT_CALIBRATION_CONFIG, allowedArithmeticSteps } from './calibration';
+import { NASA_TLX_ID, registerQuestionnaire, getQuestionnaire, isQuestionnaireDefinition } from './questionnaires';
+import { ADAPTATION_ACTIONS } from './adaptationPolicy';
+import { CAPTION_MODES } from './captions';
+import { SYNTHETIC_PATTERNS } from './workloadSources';
+import { getInstalledTopics, getTopic } from './contentPacks';
+import type { SessionLog } from './eventLogger';
+
+// Protocol served from public/ by default; override with ?protocol=<url>
+export const DEFAULT_PROTOCOL_URL = '/protocol.json';
+
+export class ProtocolError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid study protocol:\n${problems.join('\n')}`);
+    this.name = 'ProtocolError';
+  }
+}
+
+const PHASE_TYPES = ['consent', 'welcome', 'calibration', 'practice', 'lessons', 'questionnaire', 'break', 'debrief'];
+const ADAPTATION_MODES = ['off', 'adaptive', 'yoked'];
+const WORKLOAD_SOURCES = ['websocket', 'synthetic', 'replay'];
+const PROVIDER_TYPES = ['gemini', 'mock', 'openai-compatible'];
+const OFFLINE_FALLBACKS = ['hold', 'retrieve'];
+const COUNTERBALANCING_METHODS: CounterbalancingMethod[] = ['latin-square', 'permutation', 'fixed'];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Membership in a list of allowed values, narrowing to their type
+const isOneOf = <T>(allowed: readonly T[], value: unknown): value is T =>
+  allowed.some(option => option === value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'string');
+
+// Collects every problem rather than stopping at the first, so a protocol author
+// can fix the whole file in one pass.
+export const validateProtocol = (raw: unknown): StudyProtocol => {
+  const problems: string[] = [];
+
+  if (!isObject(raw)) throw new ProtocolError(['Protocol must be a JSON object.']);
+  if (typeof raw.id !== 'string' || !raw.id) problems.push('"id" must be a non-empty string.');
+  if (typeof raw.version !== 'string' || !raw.version) problems.push('"version" must be a non-empty string.');
+  if (!Array.isArray(raw.phases) || raw.phases.length === 0) {
+    problems.push('"phases" must be a non-empty array.');
+    throw new ProtocolError(problems);
+  }
+
+  // Custom questionnaires are only registered once the whole protocol is valid
+  // (see loadProtocol); until then phases may refer to them by ID
+  const customQuestionnaires = new Set<string>();
+  if (raw.questionnaireDefinitions !== undefined) {
+    if (!Array.isArray(raw.questionnaireDefinitions)) {
+      problems.push('"questionnaireDefinitions" must be an array.');
+    } else {
+      raw.questionnaireDefinitions.forEach((def: unknown, i: number) => {
+        if (!isQuestionnaireDefinition(def, `questionnaireDefinitions[${i}]`, problems)) return;
+        if (customQuestionnaires.has(def.id)) problems.push(`questionnaireDefinitions[${i}].id "${def.id}" is defined twice.`);
+        customQuestionnaires.add(def.id);
+      });
+    }
+  }
+
+  if (raw.markerStream !== undefined) {
+    const markers = raw.markerStream;
+    if (!isObject(markers)) {
+      problems.push('"markerStream" must be an object.');
+    } else {
+      if (markers.url !== undefined && (typeof markers.url !== 'string' || !/^wss?:\/\//.test(markers.url))) {
+        problems.push('markerStream.url must be a ws:// or wss:// URL.');
+      }
+      if (markers.codes !== undefined && (!isObject(markers.codes) ||
+          Object.values(markers.codes).some(code => !Number.isInteger(code) || (code as number) < 0))) {
+        problems.push('markerStream.codes must map event types to non-negative integers.');
+      }
+      const sync = markers.clockSync;
+      if (sync !== undefined && typeof sync !== 'boolean') {
+        if (!isObject(sync)) {
+          problems.push('markerStream.clockSync must be true, false or an object.');
+        } else {
+          if (sync.rounds !== undefined && (!Number.isInteger(sync.rounds) || sync.rounds < 1)) {
+            problems.push('markerStream.clockSync.rounds must be a positive integer.');
+          }
+          if (sync.intervalMs !== undefined && (typeof sync.intervalMs !== 'number' || sync.intervalMs <= 0)) {
+            problems.push('markerStream.clockSync.intervalMs must be a positive number.');
+          }
+        }
+      }
+    }
+  }
+
+  if (raw.workloadSignal !== undefined) {
+    const signal = raw.workloadSignal;
+    if (!isObject(signal) || !WORKLOAD_SOURCES.includes(signal.source)) {
+      problems.push(`workloadSignal.source must be one of ${WORKLOAD_SOURCES.join(', ')}.`);
+    } else if (signal.source === 'websocket' && signal.url !== undefined && (typeof signal.url !== 'string' || !/^wss?:\/\//.test(signal.url))) {
+      problems.push('workloadSignal.url must be a ws:// or wss:// URL.');
+    } else if (signal.source === 'replay' && (typeof signal.url !== 'string' || !signal.url)) {
+      problems.push('workloadSignal.url is required for replay.');
+    } else if (signal.source === 'synthetic') {
+      if (!SYNTHETIC_PATTERNS.includes(signal.pattern)) {
+        problems.push(`workloadSignal.pattern must be one of ${SYNTHETIC_PATTERNS.join(', ')}.`);
+      }
+      if (signal.sampleRateHz !== undefined && (typeof signal.sampleRateHz !== 'number' || signal.sampleRateHz <= 0)) {
+        problems.push('workloadSignal.sampleRateHz must be a positive number.');
+      }
+      if (signal.events !== undefined && (!isObject(signal.events) ||
+          Object.values(signal.events).some(v => typeof v !== 'number' || v < 0 || v > 1))) {
+        problems.push('workloadSignal.events must map event types to values between 0 and 1.');
+      }
+    }
+  }
+
+  if (raw.behaviourTelemetry !== undefined && raw.behaviourTelemetry !== false) {
+    const telemetry = raw.behaviourTelemetry;
+    if (!isObject(telemetry)) {
+      problems.push('"behaviourTelemetry" must be an object or false.');
+    } else {
+      (['windowMs', 'mouseSampleHz', 'idleThresholdMs'] as const).forEach(key => {
+        if (telemetry[key] !== undefined && (typeof telemetry[key] !== 'number' || telemetry[key] <= 0)) {
+          problems.push(`behaviourTelemetry.${key} must be a positive number.`);
+        }
+      });
+    }
+  }
+
+  if (raw.contentPacks !== undefined && (!isStringArray(raw.contentPacks) || raw.contentPacks.length === 0)) {
+    problems.push('"contentPacks" must be a non-empty array of URLs.');
+  }
+
+  if (raw.retention !== undefined) {
+    if (!isObject(raw.retention)) {
+      problems.push('"retention" must be an object.');
+    } else if (raw.retention.minDelayMs !== undefined && (typeof raw.retention.minDelayMs !== 'number' || raw.retention.minDelayMs < 0)) {
+      problems.push('retention.minDelayMs must be a non-negative number.');
+    }
+  }
+
+  if (raw.answerPolicy !== undefined) {
+    const policy = raw.answerPolicy;
+    if (!isObject(policy)) {
+      problems.push('"answerPolicy" must be an object.');
+    } else {
+      if (policy.maxWords !== undefined && (!Number.isInteger(policy.maxWords) || policy.maxWords <= 0)) {
+        problems.push('answerPolicy.maxWords must be a positive integer.');
+      }
+      if (policy.avoidSpoilers !== undefined && typeof policy.avoidSpoilers !== 'boolean') {
+        problems.push('answerPolicy.avoidSpoilers must be true or false.');
+      }
+      if (policy.historyTurns !== undefined && (!Number.isInteger(policy.historyTurns) || policy.historyTurns < 0)) {
+        problems.push('answerPolicy.historyTurns must be a non-negative integer.');
+      }
+    }
+  }
+
+  if (raw.offline !== undefined) {
+    const offline = raw.offline;
+    if (!isObject(offline)) {
+      problems.push('"offline" must be an object.');
+    } else {
+      if (offline.interruptionFallback !== undefined && !OFFLINE_FALLBACKS.includes(offline.interruptionFallback)) {
+        problems.push(`offline.interruptionFallback must be one of ${OFFLINE_FALLBACKS.join(', ')}.`);
+      }
+      if (offline.holdMessage !== undefined && (typeof offline.holdMessage !== 'string' || !offline.holdMessage)) {
+        problems.push('offline.holdMessage must be a non-empty string.');
+      }
+    }
+  }
+
+  if (raw.provider !== undefined) {
+    const provider = raw.provider;
+    if (!isObject(provider) || !PROVIDER_TYPES.includes(provider.type)) {
+      problems.push(`provider.type must be one of ${PROVIDER_TYPES.join(', ')}.`);
+    } else {
+      if (provider.type === 'openai-compatible') {
+        if (typeof provider.baseUrl !== 'string' || !/^https?:\/\//.test(provider.baseUrl)) {
+          problems.push('provider.baseUrl must be an http:// or https:// URL.');
+        }
+        if (typeof provider.textModel !== 'string' || !provider.textModel) problems.push('provider.textModel is required.');
+      }
+      ['textModel', 'speechModel', 'voice', 'imageModel', 'transcriptionModel', 'apiKey'].forEach(key => {
+        if (provider[key] !== undefined && typeof provider[key] !== 'string') problems.push(`provider.${key} must be a string.`);
+      });
+    }
+  }
+
+  const checkQuestionnaires = (ids: unknown, where: string) => {
+    if (ids === undefined) return;
+    if (!isStringArray(ids)) {
+      problems.push(`${where}.questionnaires must be an array of instrument IDs.`);
+      return;
+    }
+    ids.filter(id => id !== NASA_TLX_ID && !customQuestionnaires.has(id)).forEach(id => {
+      try {
+        getQuestionnaire(id);
+      } catch {
+        problems.push(`${where}.questionnaires: unknown instrument "${id}".`);
+      }
+    });
+  };
+
+  const checkActions = (actions: unknown, where: string) => {
+    if (!isStringArray(actions) || actions.some(a => !isOneOf(ADAPTATION_ACTIONS, a))) {
+      problems.push(`${where} must be an array of ${ADAPTATION_ACTIONS.join(', ')}.`);
+    }
+  };
+
+  const checkCaptionMode = (mode: unknown, where: string) => {
+    if (!isOneOf(CAPTION_MODES, mode)) problems.push(`${where} must be one of ${CAPTION_MODES.join(', ')}.`);
+  };
+
+  const checkCaptions = (spec: unknown, where: string) => {
+    if (spec === undefined) return;
+    if (!isObject(spec)) {
+      problems.push(`${where} must be an object.`);
+      return;
+    }
+    if (spec.mode !== undefined) checkCaptionMode(spec.mode, `${where}.mode`);
+    if (spec.conditionModes !== undefined) {
+      if (!isObject(spec.conditionModes)) {
+        problems.push(`${where}.conditionModes must map combination IDs to caption modes.`);
+      } else {
+        Object.entries(spec.conditionModes).forEach(([id, mode]) => {
+          if (!COMBINATIONS.some(c => String(c.id) === id)) problems.push(`${where}.conditionModes: unknown combination "${id}".`);
+          checkCaptionMode(mode, `${where}.conditionModes.${id}`);
+        });
+      }
+    }
+  };
+
+  const checkAdaptation = (spec: unknown, where: string) => {
+    if (spec === undefined) return;
+    if (!isObject(spec)) {
+      problems.push(`${where} must be an object.`);
+      return;
+    }
+    if (spec.mode !== undefined && !ADAPTATION_MODES.includes(spec.mode)) {
+      problems.push(`${where}.mode must be one of ${ADAPTATION_MODES.join(', ')}.`);
+    }
+    (['highThreshold', 'lowThreshold'] as const).forEach(key => {
+      if (spec[key] !== undefined && (typeof spec[key] !== 'number' || spec[key] < 0 || spec[key] > 1)) {
+        problems.push(`${where}.${key} must be a number between 0 and 1.`);
+      }
+    });
+    if (typeof spec.highThreshold === 'number' && typeof spec.lowThreshold === 'number' && spec.lowThreshold > spec.highThreshold) {
+      problems.push(`${where}.lowThreshold must not be above highThreshold.`);
+    }
+    (['minDwellMs', 'recapMs', 'pauseDurationMs', 'slowdownFactor'] as const).forEach(key => {
+      if (spec[key] !== undefined && (typeof spec[key] !== 'number' || spec[key] <= 0)) {
+        problems.push(`${where}.${key} must be a positive number.`);
+      }
+    });
+    if (spec.allowedActions !== undefined) checkActions(spec.allowedActions, `${where}.allowedActions`);
+    if (spec.conditionActions !== undefined) {
+      if (!isObject(spec.conditionActions)) {
+        problems.push(`${where}.conditionActions must map combination IDs to action lists.`);
+      } else {
+        Object.entries(spec.conditionActions).forEach(([id, actions]) => {
+          if (!COMBINATIONS.some(c => String(c.id) === id)) problems.push(`${where}.conditionActions: unknown combination "${id}".`);
+          checkActions(actions, `${where}.conditionActions.${id}`);
+        });
+      }
+    }
+  };
+
+  // Checked against the defaults it will be merged with, as CalibrationTask would crash mid-session on a bad value
+  const checkCalibration = (overrides: Record<string, any>, where: string) => {
+    if (overrides.arithmetic !== undefined && !isObject(overrides.arithmetic)) {
+      problems.push(`${where}.arithmetic must be an object.`);
+      return;
+    }
+    const config = resolveCalibrationConfig(overrides);
+    if (overrides.sequence === undefined) {
+      if (!Number.isInteger(config.trialCount) || config.trialCount < 1) {
+        problems.push(`${where}.trialCount must be a positive integer.`);
+      } else if (config.ordering === 'randomized' && config.trialCount % 2 !== 0) {
+        problems.push(`${where}.trialCount must be even with "randomized" ordering, so both conditions get the same number of trials.`);
+      }
+    }
+    (['restDurationMs', 'taskDurationMs', 'finalResponseTimeoutMs'] as const).forEach(field => {
+      if (typeof config[field] !== 'number' || !(config[field] > 0)) problems.push(`${where}.${field} must be a positive number.`);
+    });
+    (['interTrialIntervalMs', 'interTrialJitterMs'] as const).forEach(field => {
+      if (typeof config[field] !== 'number' || !(config[field] >= 0)) problems.push(`${where}.${field} must be a non-negative number.`);
+    });
+
+    const arithmetic = config.arithmetic;
+    const bounds = ['startMin', 'startMax', 'stepMin', 'stepMax'] as const;
+    const badBounds = bounds.filter(field => !Number.isInteger(arithmetic[field]) || arithmetic[field] < 1);
+    badBounds.forEach(field => problems.push(`${where}.arithmetic.${field} must be a positive integer.`));
+    if (!Array.isArray(arithmetic.excludedSteps) || arithmetic.excludedSteps.some(step => typeof step !== 'number')) {
+      problems.push(`${where}.arithmetic.excludedSteps must be an array of numbers.`);
+      return;
+    }
+    if (badBounds.length > 0) return;
+    if (arithmetic.startMin > arithmetic.startMax) problems.push(`${where}.arithmetic.startMin must not exceed startMax.`);
+    if (arithmetic.stepMin > arithmetic.stepMax) {
+      problems.push(`${where}.arithmetic.stepMin must not exceed stepMax.`);
+    } else if (allowedArithmeticSteps(arithmetic).length === 0) {
+      problems.push(`${where}.arithmetic.excludedSteps leaves no step between ${arithmetic.stepMin} and ${arithmetic.stepMax}.`);
+    }
+  };
+
+  const checkCondition = (combinationId: unknown, topic: unknown, where: string) => {
+    if (!COMBINATIONS.some(c => c.id === combinationId)) {
+      problems.push(`${where}.combinationId must be one of ${COMBINATIONS.map(c => c.id).join(', ')}.`);
+    }
+    if (typeof topic !== 'string' || !topic) problems.push(`${where}.topic must be a non-empty string.`);
+  };
+
+  raw.phases.forEach((phase: any, i: number) => {
+    const where = `phases[${i}]`;
+    if (!isObject(phase) || !PHASE_TYPES.includes(phase.type)) {
+      problems.push(`${where}.type must be one of ${PHASE_TYPES.join(', ')}.`);
+      return;
+    }
+    switch (phase.type) {
+      case 'calibration':
+        if (phase.config !== undefined && !isObject(phase.config)) problems.push(`${where}.config must be an object.`);
+        if (isObject(phase.config) && phase.config.sequence !== undefined &&
+            (!Array.isArray(phase.config.sequence) || phase.config.sequence.some((c: any) => !Object.values(WorkloadCondition).includes(c)))) {
+          problems.push(`${where}.config.sequence must be an array of "LOW" / "HIGH".`);
+        }
+        if (isObject(phase.config)) checkCalibration(phase.config, `${where}.config`);
+        break;
+      case 'practice':
+        checkCondition(phase.combinationId, phase.topic, where);
+        if (phase.captions !== undefined) checkCaptionMode(phase.captions, `${where}.captions`);
+        break;
+      case 'lessons': {
+        const method = phase.counterbalancing ?? 'latin-square';
+        if (!COUNTERBALANCING_METHODS.includes(method)) {
+          problems.push(`${where}.counterbalancing must be one of ${COUNTERBALANCING_METHODS.join(', ')}.`);
+        }
+        if (method === 'fixed' && (!Array.isArray(phase.conditions) || phase.conditions.length === 0)) {
+          problems.push(`${where}.conditions is required when counterbalancing is "fixed".`);
+        }
+        if (phase.conditions !== undefined) {
+          if (!Array.isArray(phase.conditions)) problems.push(`${where}.conditions must be an array.`);
+          else phase.conditions.forEach((c: any, j: number) => checkCondition(c?.combinationId, c?.topic, `${where}.conditions[${j}]`));
+        }
+        if (phase.topics !== undefined && (!isStringArray(phase.topics) || phase.topics.length === 0)) {
+          problems.push(`${where}.topics must be a non-empty array of strings.`);
+        }
+        if (phase.preTest !== undefined && typeof phase.preTest !== 'boolean') {
+          problems.push(`${where}.preTest must be true or false.`);
+        }
+        if (phase.resumeFromSentence !== undefined && typeof phase.resumeFromSentence !== 'boolean') {
+          problems.push(`${where}.resumeFromSentence must be true or false.`);
+        }
+        checkQuestionnaires(phase.questionnaires, where);
+        checkAdaptation(phase.adaptation, `${where}.adaptation`);
+        checkCaptions(phase.captions, `${where}.captions`);
+        break;
+      }
+      case 'questionnaire':
+        if (!isStringArray(phase.questionnaires) || phase.questionnaires.length === 0) {
+          problems.push(`${where}.questionnaires must be a non-empty array of instrument IDs.`);
+        } else {
+          checkQuestionnaires(phase.questionnaires, where);
+        }
+        break;
+      case 'break':
+        if (phase.durationMs !== undefined && (typeof phase.durationMs !== 'number' || phase.durationMs < 0)) {
+          problems.push(`${where}.durationMs must be a non-negative number.`);
+        }
+        break;
+    }
+  });
+
+  if (raw.phases.filter((p: any) => p?.type === 'consent').length > 1) {
+    problems.push('Only one "consent" phase is allowed.');
+  }
+  const firstDataPhase = raw.phases.findIndex((p: any) => ['calibration', 'practice', 'lessons', 'questionnaire'].includes(p?.type));
+  const consentIndex = raw.phases.findIndex((p: any) => p?.type === 'consent');
+  if (firstDataPhase !== -1 && (consentIndex === -1 || consentIndex > firstDataPhase)) {
+    problems.push('A "consent" phase must come before any phase that records data.');
+  }
+
+  if (problems.length > 0) throw new ProtocolError(problems);
+  return raw as StudyProtocol;
+};
+
+// Every topic a protocol names must come from an installed content pack, so a
+// typo cannot silently fall back to generated content. Run after loading packs.
+export const checkProtocolTopics = (protocol: StudyProtocol) => {
+  const problems: string[] = [];
+  const check = (topic: string, where: string) => {
+    if (!getTopic(topic)) problems.push(`${where}: topic "${topic}" is not in any installed content pack.`);
+  };
+  protocol.phases.forEach((phase, i) => {
+    const where = `phases[${i}]`;
+    if (phase.type === 'practice') check(phase.topic, where);
+    if (phase.type === 'lessons') {
+      phase.topics?.forEach(topic => check(topic, `${where}.topics`));
+      phase.conditions?.forEach((c, j) => check(c.topic, `${where}.conditions[${j}]`));
+    }
+  });
+  if (problems.length > 0) throw new ProtocolError(problems);
+};
+
+export const loadProtocol = async (url: string): Promise<StudyProtocol> => {
+  const response = await fetch(url, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`Could not load study protocol from ${url} (HTTP ${response.status}).`);
+  }
+  let raw: unknown;
+  try {
+    raw = await response.json();
+  } catch {
+    throw new Error(`Study protocol at ${url} is not valid JSON.`);
+  }
+  const protocol = validateProtocol(raw);
+  protocol.questionnaireDefinitions?.forEach(registerQuestionnaire);
+  return protocol;
+};
+
+export const getProtocolUrl = (): string =>
+  new URLSearchParams(window.location.search).get('protocol') || DEFAULT_PROTOCOL_URL;
+
+export const resolveCalibrationConfig = (overrides?: Partial<CalibrationConfig>): CalibrationConfig => ({
+  ...DEFAULT_CALIBRATION_CONFIG,
+  ...overrides,
+  arithmetic: { ...DEFAULT_CALIBRATION_CONFIG.arithmetic, ...overrides?.arithmetic }
+});
+
+// Builds the condition schedule for a 'lessons' phase. Counterbalanced phases
+// draw the next sequence index; fixed phases use the listed order as-is.
+export const scheduleForLessons = (phase: Extract<ProtocolPhase, { type: 'lessons' }>): ConditionSchedule => {
+  const method = phase.counterbalancing ?? 'latin-square';
+  if (method !== 'fixed') {
+    return createSchedule(nextSequenceIndex(), method, phase.topics ?? getInstalledTopics().map(t => t.title));
+  }
+
+  const seenTopics = new Set<string>();
+  return {
+    method,
+    sequenceIndex: 0,
+    conditions: phase.conditions!.map(spec => {
+      const combo = COMBINATIONS.find(c => c.id === spec.combinationId)!;
+      const topicReused = seenTopics.has(spec.topic);
+      seenTopics.add(spec.topic);
+      return { combinationId: combo.id, complexity: combo.complexity, pacing: combo.pacing, topic: spec.topic, topicReused };
+    })
+  };
+};
+
+// A participant who registers again sooner than this after their last session
+// is still taking part (e.g. after a reload) and is resumed; later, the
+// retention test is offered
+export const DEFAULT_RETENTION_MIN_DELAY_MS = 24 * 60 * 60 * 1000;
+
+export const isRetentionVisit = (protocol: StudyProtocol, sessions: SessionLog[], now = Date.now()): boolean =>
+  sessions.length > 0 && now - Math.max(...sessions.map(s => s.startTime)) >= (protocol.retention?.minDelayMs ?? DEFAULT_RETENTION_MIN_DELAY_MS);
+
+export interface ResumePoint {
+  phaseIndex: number;
+  complete: boolean; // Nothing left but the debrief
+  schedule?: ConditionSchedule; // Lessons phase: the participant's original schedule
+  position?: number; // Next lesson, or the unfinished one
+}
+
+// Whether a session saw its (non-lesson) phase through
+const finishedPhase = (phase: ProtocolPhase, session: SessionLog): boolean => {
+  switch (phase.type) {
+    case 'questionnaire':
+      return phase.questionnaires.every(id => id === NASA_TLX_ID ? !!session.nasaTlx : !!session.questionnaires?.[id]);
+    case 'practice':
+      return !!session.quizStats;
+    default:
+      return false;
+  }
+};
+
+// Where a participant left off in this protocol, from their latest session. A
+// counterbalanced schedule is rebuilt from its logged sequence index. Retention
+// sessions are not part of the protocol's run and are ignored.
+export const findResumePoint = (protocol: StudyProtocol, sessions: SessionLog[]): ResumePoint | null => {
+  const own = sessions
+    .filter(s => s.sessionType !== 'retention' && s.protocol?.protocolId === protocol.id)
+    .sort((a, b) => a.startTime - b.startTime);
+  const latest = own[own.length - 1];
+  if (!latest) return null;
+  const at = (phaseIndex: number) => {
+    const remaining = protocol.phases.slice(phaseIndex);
+    return { phaseIndex, complete: remaining.length === 0 || remaining[0].type === 'debrief' };
+  };
+  const phaseIndex = latest.protocol!.phaseIndex;
+  const phase = protocol.phases[phaseIndex];
+  if (!phase) return at(protocol.phases.length);
+  if (phase.type !== 'lessons') return at(finishedPhase(phase, latest) ? phaseIndex + 1 : phaseIndex);
+
+  const lessons = own.filter(s => s.sessionType === 'tutoring' && s.protocol!.phaseIndex === phaseIndex && s.config?.scheduling);
+  const last = lessons[lessons.length - 1];
+  if (!last) return at(phaseIndex);
+  const scheduling = last.config!.scheduling!;
+  const schedule = scheduling.method === 'fixed'
+    ? scheduleForLessons(phase)
+    : createSchedule(scheduling.sequenceIndex, scheduling.method, phase.topics ?? getInstalledTopics().map(t => t.title));
+  // A lesson counts as done once its quiz was answered
+  const position = scheduling.position + (last.quizStats ? 1 : 0);
+  if (position >= schedule.conditions.length) return at(phaseIndex + 1);
+  return { ...at(phaseIndex), schedule, position };
+};
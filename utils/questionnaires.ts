@@ -0,0 +1,147 @@
+import { QuestionnaireDefinition, QuestionnaireAnswer, QuestionnaireItemType, QuestionnaireScoring } from '../types';
+
+// The NASA-TLX has its own form (pairwise weighting), but is chained like any other instrument
+export const NASA_TLX_ID = 'nasa-tlx';
+
+const AGREE_ANCHORS = ['Strongly disagree', 'Strongly agree'];
+
+// System Usability Scale (Brooke, 1996)
+export const SUS: QuestionnaireDefinition = {
+  id: 'sus',
+  title: 'System Usability',
+  instructions: 'Please rate how much you agree with each statement about the tutoring system.',
+  scoring: 'sus',
+  items: [
+    'I think that I would like to use this system frequently.',
+    'I found the system unnecessarily complex.',
+    'I thought the system was easy to use.',
+    'I think that I would need the support of a technical person to be able to use this system.',
+    'I found the various functions in this system were well integrated.',
+    'I thought there was too much inconsistency in this system.',
+    'I would imagine that most people would learn to use this system very quickly.',
+    'I found the system very cumbersome to use.',
+    'I felt very confident using the system.',
+    'I needed to learn a lot of things before I could get going with this system.'
+  ].map((text, i) => ({ id: `sus${i + 1}`, text, type: 'likert' as const, scalePoints: 5, anchors: AGREE_ANCHORS, required: true }))
+};
+
+// Checks that the pacing and complexity manipulations were perceived
+export const MANIPULATION_CHECK: QuestionnaireDefinition = {
+  id: 'manipulation-check',
+  title: 'About the Lesson',
+  items: [
+    { id: 'perceivedPacing', text: 'How was the speed of the explanation?', type: 'likert', scalePoints: 7, anchors: ['Much too slow', 'Much too fast'], required: true },
+    { id: 'perceivedDifficulty', text: 'How difficult was the language used in the explanation?', type: 'likert', scalePoints: 7, anchors: ['Very easy', 'Very difficult'], required: true },
+    { id: 'priorKnowledge', text: 'How much did you know about this topic before the lesson?', type: 'likert', scalePoints: 7, anchors: ['Nothing', 'A great deal'] }
+  ]
+};
+
+export const TRUST_IN_AI: QuestionnaireDefinition = {
+  id: 'trust-in-ai',
+  title: 'Trust in the AI Tutor',
+  instructions: 'Please rate how much you agree with each statement about the AI tutor.',
+  scoring: 'mean',
+  items: [
+    { id: 'trust1', text: 'I can trust the information given by the AI tutor.', type: 'likert', scalePoints: 7, anchors: AGREE_ANCHORS, required: true },
+    { id: 'trust2', text: 'The AI tutor is reliable.', type: 'likert', scalePoints: 7, anchors: AGREE_ANCHORS, required: true },
+    { id: 'trust3', text: 'I am suspicious of the AI tutor\'s answers.', type: 'likert', scalePoints: 7, anchors: AGREE_ANCHORS, required: true, reverseScored: true },
+    { id: 'trust4', text: 'I would rely on the AI tutor to learn a new topic.', type: 'likert', scalePoints: 7, anchors: AGREE_ANCHORS, required: true },
+    { id: 'trustComment', text: 'Anything else about the tutor you would like to tell us? (optional)', type: 'text' }
+  ]
+};
+
+const registry = new Map<string, QuestionnaireDefinition>(
+  [SUS, MANIPULATION_CHECK, TRUST_IN_AI].map(q => [q.id, q])
+);
+
+const ITEM_TYPES: QuestionnaireItemType[] = ['likert', 'slider', 'choice', 'text'];
+const SCORINGS: QuestionnaireScoring[] = ['none', 'mean', 'sus'];
+
+const isStringArray = (value: unknown) => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+// Checks a definition (e.g. one loaded from a protocol), adding one message per problem
+export const isQuestionnaireDefinition = (def: any, where: string, problems: string[]): def is QuestionnaireDefinition => {
+  const before = problems.length;
+  if (typeof def !== 'object' || def === null || Array.isArray(def)) {
+    problems.push(`${where} must be an object.`);
+    return false;
+  }
+  if (typeof def.id !== 'string' || !def.id) problems.push(`${where}.id must be a non-empty string.`);
+  else if (def.id === NASA_TLX_ID) problems.push(`${where}.id "${NASA_TLX_ID}" is reserved.`);
+  if (typeof def.title !== 'string') problems.push(`${where}.title must be a string.`);
+  if (def.instructions !== undefined && typeof def.instructions !== 'string') problems.push(`${where}.instructions must be a string.`);
+  if (def.scoring !== undefined && !SCORINGS.includes(def.scoring)) problems.push(`${where}.scoring must be one of ${SCORINGS.join(', ')}.`);
+  if (!Array.isArray(def.items) || def.items.length === 0) {
+    problems.push(`${where}.items must be a non-empty array.`);
+  } else {
+    const itemIds = new Set<string>();
+    def.items.forEach((item: any, i: number) => {
+      const at = `${where}.items[${i}]`;
+      if (typeof item !== 'object' || item === null) {
+        problems.push(`${at} must be an object.`);
+        return;
+      }
+      if (typeof item.id !== 'string' || !item.id) problems.push(`${at}.id must be a non-empty string.`);
+      else if (itemIds.has(item.id)) problems.push(`${at}.id "${item.id}" is already used by an earlier item.`);
+      else itemIds.add(item.id);
+      if (typeof item.text !== 'string') problems.push(`${at}.text must be a string.`);
+      if (!ITEM_TYPES.includes(item.type)) problems.push(`${at}.type must be one of ${ITEM_TYPES.join(', ')}.`);
+      if (item.scalePoints !== undefined && (!Number.isInteger(item.scalePoints) || item.scalePoints < 2)) {
+        problems.push(`${at}.scalePoints must be an integer of at least 2.`);
+      }
+      (['min', 'max', 'step'] as const).forEach(field => {
+        if (item[field] !== undefined && typeof item[field] !== 'number') problems.push(`${at}.${field} must be a number.`);
+      });
+      if (typeof item.min === 'number' && typeof item.max === 'number' && item.min >= item.max) problems.push(`${at}.min must be below max.`);
+      if (typeof item.step === 'number' && item.step <= 0) problems.push(`${at}.step must be positive.`);
+      if (item.anchors !== undefined && !isStringArray(item.anchors)) problems.push(`${at}.anchors must be an array of strings.`);
+      if (item.options !== undefined && !isStringArray(item.options)) problems.push(`${at}.options must be an array of strings.`);
+      else if (item.type === 'choice' && !item.options?.length) problems.push(`${at} is a choice item with no options.`);
+      (['required', 'reverseScored'] as const).forEach(field => {
+        if (item[field] !== undefined && typeof item[field] !== 'boolean') problems.push(`${at}.${field} must be true or false.`);
+      });
+    });
+  }
+  return problems.length === before;
+};
+
+// Adds a custom instrument (e.g. a study-specific Likert scale) so it can be chained by ID
+export const registerQuestionnaire = (definition: QuestionnaireDefinition) => {
+  const problems: string[] = [];
+  if (!isQuestionnaireDefinition(definition, `Questionnaire "${definition.id}"`, problems)) {
+    throw new Error(problems.join(' '));
+  }
+  registry.set(definition.id, definition);
+};
+
+export const getQuestionnaire = (id: string): QuestionnaireDefinition => {
+  const definition = registry.get(id);
+  if (!definition) throw new Error(`Unknown questionnaire "${id}".`);
+  return definition;
+};
+
+export const scoreQuestionnaire = (
+  definition: QuestionnaireDefinition,
+  responses: Record<string, QuestionnaireAnswer>
+): number | undefined => {
+  switch (definition.scoring) {
+    case 'sus': {
+      // Odd items contribute (value - 1), even items (5 - value); the sum is scaled to 0-100
+      const values = definition.items.map(item => responses[item.id]);
+      if (values.some(v => typeof v !== 'number')) return undefined;
+      const sum = (values as number[]).reduce((acc, v, i) => acc + (i % 2 === 0 ? v - 1 : 5 - v), 0);
+      return sum * 2.5;
+    }
+    case 'mean': {
+      const scored = definition.items
+        .filter(item => item.type === 'likert' && typeof responses[item.id] === 'number')
+        .map(item => {
+          const value = responses[item.id] as number;
+          return item.reverseScored ? (item.scalePoints ?? 7) + 1 - value : value;
+        });
+      return scored.length > 0 ? scored.reduce((a, b) => a + b, 0) / scored.length : undefined;
+    }
+    default:
+      return undefined;
+  }
+};
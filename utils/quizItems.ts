@@ -0,0 +1,204 @@
+import { QuizQuestion, CognitiveLevel, QuizDifficulty } from '../types';
+
+// In the order the quiz prompt asks for them, so position gives an untagged generated item's level
+export const COGNITIVE_LEVELS: CognitiveLevel[] = ['recall', 'conceptual', 'higher-order'];
+export const QUIZ_DIFFICULTIES: QuizDifficulty[] = ['easy', 'medium', 'hard'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Normalised text used to detect the same item appearing in both tests
+export const normalizeItemText = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const STOP_WORDS = new Set(['about', 'after', 'also', 'because', 'been', 'being', 'both', 'each', 'from', 'have', 'into',
+  'more', 'most', 'only', 'other', 'over', 'same', 'some', 'such', 'than', 'that', 'their', 'them', 'then', 'there',
+  'these', 'they', 'this', 'those', 'through', 'very', 'what', 'when', 'which', 'while', 'with', 'would', 'your']);
+
+// Crude stem, so "plants" in an option matches "plant" in the script
+const stem = (word: string) => word.slice(0, 5);
+
+const contentWords = (text: string) =>
+  normalizeItemText(text).split(' ').filter(w => w.length >= 4 && !STOP_WORDS.has(w));
+
+// Share of content words two items have in common (Jaccard), above which a
+// pre-test item counts as a paraphrase of a post-test item
+const PARAPHRASE_THRESHOLD = 0.5;
+
+// Stem and correct answer, so a reworded question with the same answer is caught
+const itemWords = (q: QuizQuestion) => new Set(contentWords(`${q.question} ${q.options[q.correctIndex] ?? ''}`).map(stem));
+
+export const itemsOverlap = (a: QuizQuestion, b: QuizQuestion): boolean => {
+  if (normalizeItemText(a.question) === normalizeItemText(b.question)) return true;
+  const wordsA = itemWords(a);
+  const wordsB = itemWords(b);
+  const shared = [...wordsA].filter(w => wordsB.has(w)).length;
+  const union = wordsA.size + wordsB.size - shared;
+  return union > 0 && shared / union >= PARAPHRASE_THRESHOLD;
+};
+
+export const quizzesOverlap = (a: QuizQuestion[], b: QuizQuestion[]): boolean =>
+  b.some(q => a.some(other => itemsOverlap(other, q)));
+
+// Shape problems of a quiz loaded from a file, one message per problem
+export const checkQuizShape = (items: unknown, where: string): string[] => {
+  if (!Array.isArray(items) || items.length === 0) return [`${where} must be a non-empty array of questions.`];
+  const problems: string[] = [];
+  items.forEach((item: any, i) => {
+    const at = `${where}[${i}]`;
+    if (typeof item?.question !== 'string' || !item.question.trim()) problems.push(`${at}.question must be a non-empty string.`);
+    if (!Array.isArray(item?.options) || item.options.length < 2 || item.options.some((o: unknown) => typeof o !== 'string')) {
+      problems.push(`${at}.options must be an array of at least two strings.`);
+    } else if (!Number.isInteger(item.correctIndex) || item.correctIndex < 0 || item.correctIndex >= item.options.length) {
+      problems.push(`${at}.correctIndex must index one of the options.`);
+    } else if (new Set(item.options.map(normalizeItemText)).size < item.options.length) {
+      problems.push(`${at}.options must not repeat an option.`);
+    }
+    if (item?.cognitiveLevel !== undefined && !COGNITIVE_LEVELS.includes(item.cognitiveLevel)) {
+      problems.push(`${at}.cognitiveLevel must be one of: ${COGNITIVE_LEVELS.join(', ')}.`);
+    }
+    if (item?.difficulty !== undefined && !QUIZ_DIFFICULTIES.includes(item.difficulty)) {
+      problems.push(`${at}.difficulty must be one of: ${QUIZ_DIFFICULTIES.join(', ')}.`);
+    }
+  });
+  return problems;
+};
+
+// --- Validation and repair of generated quizzes ---
+
+export const QUIZ_LENGTH = 3;
+const MIN_OPTIONS = 2;
+const MAX_OPTIONS = 6;
+
+export interface QuizValidationAttempt {
+  problems: string[]; // Any problem rejects the attempt
+  repairs: string[]; // Fixed in place
+  warnings: string[]; // Recorded only (e.g. answer not found in the script)
+}
+
+export interface QuizValidationResult extends QuizValidationAttempt {
+  valid: boolean;
+  items: QuizQuestion[];
+}
+
+export interface QuizValidationOptions {
+  script?: string; // Checks the correct options against it
+  exclude?: QuizQuestion[]; // Items that must not reappear (the post-test, for a pre-test)
+}
+
+// True unless the correct option has content words and none of them are in the script
+const isSupportedByScript = (answer: string, script: string) => {
+  const words = contentWords(answer);
+  if (words.length === 0) return true;
+  const scriptStems = new Set(contentWords(script).map(stem));
+  return words.some(w => scriptStems.has(stem(w)));
+};
+
+// Tags are matched loosely ("Higher order" is higher-order)
+const readTag = <T extends string>(value: unknown, allowed: T[]): T | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const tag = value.trim().toLowerCase().replace(/[\s_]+/g, '-');
+  return allowed.find(a => a === tag);
+};
+
+// Checks a generated quiz (structure, option count, index bounds, duplicates,
+// overlap) and repairs what can be fixed without guessing: wrapped arrays,
+// numeric strings, stray whitespace, repeated options, surplus questions,
+// missing cognitive levels (taken from the item's position in the response).
+export const validateQuiz = (raw: unknown, options: QuizValidationOptions = {}): QuizValidationResult => {
+  const problems: string[] = [];
+  const repairs: string[] = [];
+  const warnings: string[] = [];
+
+  let list: unknown = raw;
+  if (isObject(list) && Array.isArray(list.questions)) {
+    list = list.questions;
+    repairs.push('Unwrapped the "questions" array.');
+  }
+  if (!Array.isArray(list)) {
+    return { valid: false, items: [], problems: ['Response is not an array of questions.'], repairs, warnings };
+  }
+
+  const seenQuestions = new Set<string>();
+  const items: QuizQuestion[] = [];
+  const positions: number[] = []; // Index of each usable item in the response, before anything was dropped
+
+  list.forEach((item: any, i) => {
+    const at = `Question ${i + 1}`;
+    const question = typeof item?.question === 'string' ? item.question.trim() : '';
+    if (!question) {
+      problems.push(`${at}: missing question text.`);
+      return;
+    }
+    if (!Array.isArray(item.options) || item.options.some((o: unknown) => typeof o !== 'string')) {
+      problems.push(`${at}: options must be an array of strings.`);
+      return;
+    }
+
+    let correctIndex = item.correctIndex;
+    if (typeof correctIndex === 'string' && /^\d+$/.test(correctIndex.trim())) {
+      correctIndex = Number(correctIndex);
+      repairs.push(`${at}: converted correctIndex from a string.`);
+    }
+    if (!Number.isInteger(correctIndex) || correctIndex < 0 || correctIndex >= item.options.length) {
+      problems.push(`${at}: correctIndex ${JSON.stringify(item.correctIndex)} is out of range.`);
+      return;
+    }
+
+    // Drop repeated options, keeping the first; the answer moves with its text
+    const answerText = normalizeItemText(item.options[correctIndex]);
+    const optionTexts: string[] = [];
+    item.options.forEach((option: string) => {
+      const trimmed = option.trim();
+      if (trimmed && !optionTexts.some(o => normalizeItemText(o) === normalizeItemText(trimmed))) optionTexts.push(trimmed);
+    });
+    if (optionTexts.length < item.options.length) repairs.push(`${at}: removed ${item.options.length - optionTexts.length} repeated or empty option(s).`);
+    if (optionTexts.length < MIN_OPTIONS || optionTexts.length > MAX_OPTIONS) {
+      problems.push(`${at}: has ${optionTexts.length} distinct options (expected ${MIN_OPTIONS}-${MAX_OPTIONS}).`);
+      return;
+    }
+
+    const key = normalizeItemText(question);
+    if (seenQuestions.has(key)) {
+      problems.push(`${at}: repeats an earlier question.`);
+      return;
+    }
+    const repaired: QuizQuestion = { question, options: optionTexts, correctIndex: optionTexts.findIndex(o => normalizeItemText(o) === answerText) };
+    if (options.exclude?.some(q => itemsOverlap(q, repaired))) {
+      problems.push(`${at}: repeats or paraphrases a post-lesson quiz item.`);
+      return;
+    }
+    seenQuestions.add(key);
+
+    const cognitiveLevel = readTag(item.cognitiveLevel, COGNITIVE_LEVELS);
+    if (cognitiveLevel) repaired.cognitiveLevel = cognitiveLevel;
+    const difficulty = readTag(item.difficulty, QUIZ_DIFFICULTIES);
+    if (difficulty) repaired.difficulty = difficulty;
+    else if (item.difficulty !== undefined) repairs.push(`${at}: dropped unknown difficulty ${JSON.stringify(item.difficulty)}.`);
+    if (options.script && !isSupportedByScript(repaired.options[repaired.correctIndex], options.script)) {
+      warnings.push(`${at}: the correct option is not supported by the lesson script.`);
+    }
+    items.push(repaired);
+    positions.push(i);
+  });
+
+  if (items.length < QUIZ_LENGTH) {
+    problems.push(`Only ${items.length} usable question(s); ${QUIZ_LENGTH} are needed.`);
+    return { valid: false, items, problems, repairs, warnings };
+  }
+  // Enough usable questions: unusable ones are dropped rather than failing the quiz
+  repairs.push(...problems.map(problem => `Dropped ${problem}`));
+  if (items.length > QUIZ_LENGTH) repairs.push(`Kept the first ${QUIZ_LENGTH} of ${items.length} usable questions.`);
+  // The prompt asks for one level per position, so an untagged item's level
+  // comes from where it was in the response; past those positions it stays untagged
+  const served = items.slice(0, QUIZ_LENGTH).map((item, i) => {
+    if (item.cognitiveLevel) return item;
+    const level = COGNITIVE_LEVELS[positions[i]];
+    if (!level) {
+      warnings.push(`Question ${positions[i] + 1}: no cognitive level, and none follows from its position.`);
+      return item;
+    }
+    repairs.push(`Question ${positions[i] + 1}: tagged ${level} from its position.`);
+    return { ...item, cognitiveLevel: level };
+  });
+  return { valid: true, items: served, problems: [], repairs, warnings };
+};
@@ -0,0 +1,9 @@
+// Sentence boundaries shared by segmented playback, offline retrieval and the mock provider.
+// Only terminal punctuation followed by whitespace ends a sentence, so "1.5" stays whole.
+export const splitSentences = (text: string): string[] =>
+  text.trim().split(/(?<=[.!?])\s+(?=\S)/).map(s => s.trim()).filter(Boolean);
+
+// A sentence starting in lower case usually means an abbreviation (e.g. "e.g.
+// plants") split it; packs are checked for these on load
+export const findSentenceFragments = (text: string): string[] =>
+  splitSentences(text).slice(1).filter(s => /^[a-z]/.test(s));
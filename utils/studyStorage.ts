@@ -0,0 +1,66 @@
+import type { SessionLog } from './eventLogger';
+
+// Local persistence of session logs (IndexedDB), so nothing is lost on reload
+// and returning participants can be matched to their earlier sessions.
+// The same database holds the generation cache (see generationCache.ts).
+const DB_NAME = 'neurotutor';
+const DB_VERSION = 2;
+const SESSION_STORE = 'sessions';
+export const CACHE_ENTRY_STORE = 'generationCacheEntries'; // Metadata only, cheap to list
+export const CACHE_VALUE_STORE = 'generationCacheValues';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          const store = db.createObjectStore(SESSION_STORE, { keyPath: 'sessionId' });
+          store.createIndex('participantId', 'participantId', { unique: false });
+        }
+        if (!db.objectStoreNames.contains(CACHE_ENTRY_STORE)) {
+          const store = db.createObjectStore(CACHE_ENTRY_STORE, { keyPath: 'key' });
+          store.createIndex('input', ['kind', 'contentHash'], { unique: false });
+        }
+        if (!db.objectStoreNames.contains(CACHE_VALUE_STORE)) {
+          db.createObjectStore(CACHE_VALUE_STORE, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const saveSession = async (session: SessionLog): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSION_STORE, 'readwrite');
+  // Structured clone of a plain JSON copy, so no live references are stored
+  await requestToPromise(tx.objectStore(SESSION_STORE).put(JSON.parse(JSON.stringify(session))));
+};
+
+export const getSessionsForParticipant = async (participantId: string): Promise<SessionLog[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSION_STORE, 'readonly');
+  const sessions = await requestToPromise(tx.objectStore(SESSION_STORE).index('participantId').getAll(participantId));
+  return (sessions as SessionLog[]).sort((a, b) => a.startTime - b.startTime);
+};
+
+export const getAllSessions = async (): Promise<SessionLog[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSION_STORE, 'readonly');
+  return requestToPromise(tx.objectStore(SESSION_STORE).getAll()) as Promise<SessionLog[]>;
+};
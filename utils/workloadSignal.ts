@@ -0,0 +1,216 @@
+import { useState, useEffect } from 'react';
+import { WorkloadSignalConfig } from '../types';
+import { logger } from './eventLogger';
+import { SyntheticWorkloadSource, ReplayWorkloadSource, SYNTHETIC_PATTERNS } from './workloadSources';
+
+// Live workload estimates from an external classifier (e.g. the EEG/fNIRS
+// pipeline trained on the calibration block). Values are in [0, 1].
+
+export const DEFAULT_WORKLOAD_URL = 'ws://localhost:8766';
+
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 15000;
+
+export type WorkloadSignalStatus = 'disabled' | 'connecting' | 'connected' | 'disconnected';
+
+export interface WorkloadSample {
+  value: number; // 0 = minimal, 1 = maximal workload
+  receivedAt: number; // Date.now() on arrival
+  sourceTimestamp?: number; // Timestamp sent by the classifier, if any
+  source: string;
+}
+
+// Anything that can produce workload estimates: the live stream or a stand-in
+export interface WorkloadSource {
+  readonly name: string;
+  start(emit: (value: number, sourceTimestamp?: number) => void, onStatus: (status: WorkloadSignalStatus) => void): void;
+  stop(): void;
+}
+
+// Accepts `0.42`, `{ "value": 0.42, "timestamp": 1712345678901 }` or an array of either
+export const parseWorkloadMessage = (data: string): { value: number; timestamp?: number }[] => {
+  const parsed = JSON.parse(data);
+  const items = Array.isArray(parsed) ? parsed : [parsed];
+  return items.map(item => {
+    const value = typeof item === 'number' ? item : item?.value;
+    const timestamp = typeof item?.timestamp === 'number' ? item.timestamp : undefined;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 1) {
+      throw new Error(`Workload value out of range: ${JSON.stringify(item)}`);
+    }
+    return { value, timestamp };
+  });
+};
+
+export class WebSocketWorkloadSource implements WorkloadSource {
+  public readonly name = 'websocket';
+  private socket: WebSocket | null = null;
+  private reconnectTimer: number | null = null;
+  private reconnectDelay = RECONNECT_MIN_MS;
+  private stopped = false;
+
+  constructor(private readonly url: string = DEFAULT_WORKLOAD_URL) {}
+
+  public start(emit: (value: number, sourceTimestamp?: number) => void, onStatus: (status: WorkloadSignalStatus) => void) {
+    this.stopped = false;
+    const connect = () => {
+      onStatus('connecting');
+      let socket: WebSocket;
+      try {
+        socket = new WebSocket(this.url);
+      } catch (e) {
+        console.error('Invalid workload stream URL', e);
+        onStatus('disconnected');
+        return;
+      }
+      this.socket = socket;
+      socket.onopen = () => {
+        this.reconnectDelay = RECONNECT_MIN_MS;
+        onStatus('connected');
+      };
+      socket.onmessage = (event) => {
+        try {
+          parseWorkloadMessage(String(event.data)).forEach(sample => emit(sample.value, sample.timestamp));
+        } catch (e) {
+          console.warn('Ignoring malformed workload message', e);
+        }
+      };
+      socket.onclose = () => {
+        if (this.socket !== socket || this.stopped) return;
+        this.socket = null;
+        onStatus('disconnected');
+        this.reconnectTimer = window.setTimeout(connect, this.reconnectDelay);
+        this.reconnectDelay = Math.min(this.reconnectDelay * 2, RECONNECT_MAX_MS);
+      };
+    };
+    connect();
+  }
+
+  public stop() {
+    this.stopped = true;
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+    }
+  }
+}
+
+export const createWorkloadSource = (config: WorkloadSignalConfig): WorkloadSource => {
+  switch (config.source) {
+    case 'websocket':
+      return new WebSocketWorkloadSource(config.url);
+    case 'synthetic':
+      return new SyntheticWorkloadSource(config);
+    case 'replay':
+      return new ReplayWorkloadSource(config.url, config.loop);
+  }
+};
+
+// Developer override of the protocol's source: ?workload=synthetic:<pattern> or ?workload=replay:<url>
+export const getWorkloadSignalOverride = (): WorkloadSignalConfig | undefined => {
+  const param = new URLSearchParams(window.location.search).get('workload');
+  if (!param) return undefined;
+  const [kind, ...rest] = param.split(':');
+  const arg = rest.join(':');
+  switch (kind) {
+    case 'synthetic': {
+      const pattern = SYNTHETIC_PATTERNS.find(p => p === (arg || 'sinusoid'));
+      if (pattern) return { source: 'synthetic', pattern };
+      console.warn(`Ignoring workload override "${param}": pattern must be one of ${SYNTHETIC_PATTERNS.join(', ')}`);
+      return undefined;
+    }
+    case 'replay':
+      return { source: 'replay', url: arg, loop: true };
+    case 'websocket':
+      return { source: 'websocket', url: arg || undefined };
+  }
+  console.warn(`Ignoring unknown workload override "${param}"`);
+  return undefined;
+};
+
+type SampleListener = (sample: WorkloadSample) => void;
+type StatusListener = (status: WorkloadSignalStatus) => void;
+
+class WorkloadSignal {
+  private static instance: WorkloadSignal;
+  private source: WorkloadSource | null = null;
+  private status: WorkloadSignalStatus = 'disabled';
+  private latest: WorkloadSample | null = null;
+  private sampleListeners = new Set<SampleListener>();
+  private statusListeners = new Set<StatusListener>();
+
+  private constructor() {}
+
+  public static getInstance(): WorkloadSignal {
+    if (!WorkloadSignal.instance) {
+      WorkloadSignal.instance = new WorkloadSignal();
+    }
+    return WorkloadSignal.instance;
+  }
+
+  public configure(config?: WorkloadSignalConfig) {
+    this.setSource(config ? createWorkloadSource(config) : null);
+  }
+
+  public setSource(source: WorkloadSource | null) {
+    this.source?.stop();
+    this.source = source;
+    this.latest = null;
+    if (!source) {
+      this.setStatus('disabled');
+      return;
+    }
+    source.start(
+      (value, sourceTimestamp) => this.receive({ value, sourceTimestamp, receivedAt: Date.now(), source: source.name }),
+      status => this.setStatus(status)
+    );
+  }
+
+  public getLatest(): WorkloadSample | null {
+    return this.latest;
+  }
+
+  public getStatus(): WorkloadSignalStatus {
+    return this.status;
+  }
+
+  public subscribe(listener: SampleListener): () => void {
+    this.sampleListeners.add(listener);
+    return () => {
+      this.sampleListeners.delete(listener);
+    };
+  }
+
+  public subscribeStatus(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    listener(this.status);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  // Every sample is logged, whether or not anything reacts to it
+  private receive(sample: WorkloadSample) {
+    this.latest = sample;
+    logger.recordWorkloadSample(sample);
+    this.sampleListeners.forEach(listener => listener(sample));
+  }
+
+  private setStatus(status: WorkloadSignalStatus) {
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+}
+
+export const workloadSignal = WorkloadSignal.getInstance();
+
+// Latest workload sample, re-rendering the caller on every new sample
+export const useWorkloadSignal = (): WorkloadSample | null => {
+  const [sample, setSample] = useState<WorkloadSample | null>(workloadSignal.getLatest());
+  useEffect(() => workloadSignal.subscribe(setSample), []);
+  return sample;
+};
@@ -0,0 +1,170 @@
+import { SyntheticWorkloadConfig, SyntheticWorkloadPattern } from '../types';
+import { logger } from './eventLogger';
+import type { WorkloadSource, WorkloadSignalStatus } from './workloadSignal';
+
+// Stand-ins for the live classifier, so adaptive lessons can be developed and
+// demoed without an EEG rig or a network.
+
+export const SYNTHETIC_PATTERNS: SyntheticWorkloadPattern[] = ['sinusoid', 'step', 'random-walk', 'event-keyed'];
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Box-Muller
+const gaussian = () => Math.sqrt(-2 * Math.log(1 - Math.random())) * Math.cos(2 * Math.PI * Math.random());
+
+// Workload each event type jumps to in the 'event-keyed' pattern
+export const DEFAULT_EVENT_WORKLOAD: Record<string, number> = {
+  user_interrupt: 0.9,
+  audio_resume: 0.7,
+  quiz_answer: 0.6
+};
+
+export class SyntheticWorkloadSource implements WorkloadSource {
+  public readonly name: string;
+  private interval: number | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(private readonly config: SyntheticWorkloadConfig) {
+    this.name = `synthetic:${config.pattern}`;
+  }
+
+  public start(emit: (value: number, sourceTimestamp?: number) => void, onStatus: (status: WorkloadSignalStatus) => void) {
+    const {
+      pattern, sampleRateHz = 4, baseline = 0.5, amplitude = 0.3, periodMs = 60000,
+      stepTo = 0.85, stepAtMs = 30000, stepEndMs, stepSize = 0.05, decayMs = 10000, noise = 0
+    } = this.config;
+    const events = { ...DEFAULT_EVENT_WORKLOAD, ...this.config.events };
+    const startedAt = performance.now();
+    let walk = baseline;
+    let eventLevel = baseline;
+    let eventAt = startedAt;
+
+    if (pattern === 'event-keyed') {
+      this.unsubscribe = logger.subscribe(event => {
+        if (events[event.eventType] === undefined) return;
+        eventLevel = events[event.eventType];
+        eventAt = performance.now();
+      });
+    }
+
+    const next = (now: number): number => {
+      const t = now - startedAt;
+      switch (pattern) {
+        case 'sinusoid':
+          return baseline + amplitude * Math.sin((2 * Math.PI * t) / periodMs);
+        case 'step':
+          return t >= stepAtMs && (stepEndMs === undefined || t < stepEndMs) ? stepTo : baseline;
+        case 'random-walk':
+          walk = clamp01(walk + (Math.random() < 0.5 ? -stepSize : stepSize));
+          return walk;
+        case 'event-keyed':
+          // Exponential return to baseline after the last keyed event
+          return baseline + (eventLevel - baseline) * Math.exp(-(now - eventAt) / decayMs);
+      }
+    };
+
+    this.interval = window.setInterval(() => {
+      const value = next(performance.now()) + (noise > 0 ? gaussian() * noise : 0);
+      emit(clamp01(value), Date.now());
+    }, 1000 / sampleRateHz);
+    onStatus('connected');
+  }
+
+  public stop() {
+    if (this.interval !== null) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+}
+
+export interface RecordedSample {
+  timestamp: number; // ms; only differences matter
+  value: number;
+}
+
+// Accepts CSV with "timestamp,value" rows (header optional), a JSON array of
+// { timestamp, value }, or an exported session log (its workloadSamples).
+export const parseSignalFile = (text: string): RecordedSample[] => {
+  const trimmed = text.trim();
+  let samples: RecordedSample[];
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const parsed = JSON.parse(trimmed);
+    const rows: any[] = Array.isArray(parsed) ? parsed : parsed.workloadSamples;
+    if (!Array.isArray(rows)) throw new Error('JSON signal must be an array or a session log with workloadSamples.');
+    samples = rows.map(row => ({ timestamp: Number(row.timestamp ?? row.receivedAt), value: Number(row.value) }));
+  } else {
+    samples = trimmed.split(/\r?\n/)
+      .map(line => line.split(/[,;\t]/).map(cell => cell.trim()))
+      .filter(cells => cells.length >= 2 && !isNaN(parseFloat(cells[0])))
+      .map(cells => ({ timestamp: parseFloat(cells[0]), value: parseFloat(cells[1]) }));
+  }
+
+  const invalid = samples.findIndex(s => !Number.isFinite(s.timestamp) || !Number.isFinite(s.value) || s.value < 0 || s.value > 1);
+  if (invalid !== -1) throw new Error(`Invalid sample at row ${invalid + 1}: values must be in [0, 1] with numeric timestamps.`);
+  if (samples.length === 0) throw new Error('Signal file contains no samples.');
+  return samples.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+// Streams a recorded signal with its original inter-sample timing
+export class ReplayWorkloadSource implements WorkloadSource {
+  public readonly name = 'replay';
+  private timer: number | null = null;
+  private stopped = false;
+
+  constructor(private readonly url: string, private readonly loop = false) {}
+
+  public start(emit: (value: number, sourceTimestamp?: number) => void, onStatus: (status: WorkloadSignalStatus) => void) {
+    this.stopped = false;
+    onStatus('connecting');
+    fetch(this.url)
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.text();
+      })
+      .then(text => {
+        if (this.stopped) return;
+        const samples = parseSignalFile(text);
+        onStatus('connected');
+        this.play(samples, emit, onStatus);
+      })
+      .catch(e => {
+        console.error(`Could not replay workload signal from ${this.url}`, e);
+        onStatus('disconnected');
+      });
+  }
+
+  private play(samples: RecordedSample[], emit: (value: number, sourceTimestamp?: number) => void, onStatus: (status: WorkloadSignalStatus) => void) {
+    // Scheduled against the start time so timer delays do not accumulate
+    const startedAt = performance.now();
+    const origin = samples[0].timestamp;
+    let index = 0;
+    const tick = () => {
+      if (this.stopped) return;
+      emit(samples[index].value, samples[index].timestamp);
+      index++;
+      if (index >= samples.length) {
+        if (this.loop) {
+          // Restart after one mean sample interval
+          const gapMs = samples.length > 1 ? (samples[samples.length - 1].timestamp - origin) / (samples.length - 1) : 1000;
+          this.timer = window.setTimeout(() => this.play(samples, emit, onStatus), gapMs);
+        } else {
+          onStatus('disconnected');
+        }
+        return;
+      }
+      this.timer = window.setTimeout(tick, Math.max(0, startedAt + samples[index].timestamp - origin - performance.now()));
+    };
+    tick();
+  }
+
+  public stop() {
+    this.stopped = true;
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}